@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import {
+  deployWorkflow,
+  resolveDeployTarget,
+  type DeployRequest
+} from "../../../lib/deploy";
+
+// Deploys from the server, so calls to n8n are not blocked by CORS and the
+// API key is only held for the length of the request. Set
+// N8N_DEPLOY_ALLOWED_HOSTS (comma-separated, e.g. "localhost:5678") to allow
+// only those hosts, including private ones a self-hosted n8n may run on.
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Partial<
+    Record<keyof DeployRequest, unknown>
+  > | null;
+  const apiKey = typeof body?.apiKey === "string" ? body.apiKey.trim() : "";
+  const target = await resolveDeployTarget(
+    typeof body?.baseUrl === "string" ? body.baseUrl : "",
+    (process.env.N8N_DEPLOY_ALLOWED_HOSTS ?? "")
+      .split(",")
+      .map((host) => host.trim())
+      .filter(Boolean)
+  );
+  if (!target.ok) {
+    return NextResponse.json(target, { status: 400 });
+  }
+  if (!apiKey) {
+    return NextResponse.json(
+      { ok: false, error: "Enter an n8n API key (Settings → n8n API)." },
+      { status: 400 }
+    );
+  }
+  if (typeof body?.workflowJson !== "string") {
+    return NextResponse.json(
+      { ok: false, error: "The request has no workflow JSON." },
+      { status: 400 }
+    );
+  }
+
+  const result = await deployWorkflow({
+    baseUrl: target.baseUrl,
+    apiKey,
+    workflowJson: body.workflowJson,
+    workflowId: typeof body.workflowId === "string" ? body.workflowId : undefined,
+    activate: body.activate === true,
+    addresses: target.addresses
+  });
+  return NextResponse.json(result, { status: result.ok ? 200 : 502 });
+}
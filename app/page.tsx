@@ -1,43 +1,319 @@
 /* eslint-disable react/no-array-index-key */
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AiFallback,
+  AlertTarget,
+  BuilderConfig,
+  BusinessSchedule,
+  CHANNELS,
+  CarouselCard,
+  Channel,
+  ConversationFlows,
+  ConversationLog,
+  DEFAULT_AI_FALLBACK,
+  DEFAULT_AI_KEY_CREDENTIAL,
+  DEFAULT_ERROR_HANDLING,
+  DEFAULT_FLOWS,
+  DEFAULT_FORM,
+  DEFAULT_LOCALIZATION,
+  DEFAULT_LOGGING,
+  DEFAULT_LOOKUP,
+  DEFAULT_LOOKUP_CREDENTIAL,
+  DEFAULT_PAGE_TOKEN_CREDENTIAL,
+  DEFAULT_SCHEDULE,
+  DEFAULT_SLACK_WEBHOOK_ENV,
+  DEFAULT_VERIFY_TOKEN_ENV,
+  DEFAULT_WHATSAPP_TOKEN_CREDENTIAL,
+  DayHours,
+  ErrorHandling,
+  FlowStep,
+  FormState,
+  KeywordParseProblem,
+  KeywordRoute,
+  LOCALES,
+  LOG_COLUMNS,
+  LocaleDetection,
+  Localization,
+  LogSink,
+  MATCH_MODE_LABELS,
+  MatchMode,
+  N8nTarget,
+  OrderLookup,
+  PAGE_INBOX_APP_ID,
+  PLACEHOLDER_PAGE_TOKEN,
+  ReplyButton,
+  RichReply,
+  RouteAction,
+  SECRET_FIELDS,
+  SecretStorage,
+  WEEKDAYS,
+  Weekday,
+  WorkflowIdentity,
+  WorkflowImport,
+  buildLookupReplyCode,
+  buildNormalizeEventCode,
+  createBuilderConfig,
+  evaluateExpression,
+  formatKeywordInput,
+  generateWorkflowJson,
+  importBuilderConfig,
+  isAiFallbackEnabled,
+  isLocalizationEnabled,
+  isRouteComplete,
+  isSignatureCheckEnabled,
+  looksUpProfileLocale,
+  mergeSchedule,
+  normalizeImportedRoute,
+  normalizeRichReply,
+  parseHolidayInput,
+  parseKeywordInput,
+  parseKeywordLines,
+  safeJsonParse,
+  sanitizeEnvName,
+  sanitizeWebhookPath,
+  stringifyBuilderConfig,
+  toPhrasePattern,
+  usesFlows,
+  usesLookup
+} from "../lib/workflow";
+import type { DeployResult } from "../lib/deploy";
 
-type KeywordRoute = {
-  phrase: string;
-  reply: string;
+type RouteRow = Pick<
+  KeywordRoute,
+  "reply" | "matchMode" | "priority" | "action" | "translations" | "awaiting"
+> & {
+  phraseText: string;
 };
 
-type FormState = {
-  automationName: string;
-  verifyToken: string;
-  pageAccessToken: string;
-  webhookPath: string;
-  defaultReply: string;
-  timezone: string;
+type LogAnalytics = {
+  total: number;
+  fallbacks: number;
+  flowAnswers: number;
+  routeHits: { label: string; count: number }[];
+  unmatched: { text: string; count: number }[];
+};
+
+type WorkflowNode = {
+  name?: string;
+  type?: string;
+  parameters?: Record<string, unknown>;
+  credentials?: Record<string, { id?: string; name?: string }>;
+};
+
+type SimulatorMode = "message" | "webhook" | "verification";
+
+type SimulatedItem = {
+  isVerification: boolean;
+  shouldReply?: boolean;
+  statusCode: number;
+  responseBody?: unknown;
+  channel?: Channel;
+  senderId?: string;
+  replyText?: string;
+  matchedPhrase?: string | null;
+  afterHours?: boolean;
+  handover?: boolean;
+  handoverTargetAppId?: string | null;
+  needsAi?: boolean;
+  locale?: string | null;
+  needsLocale?: boolean;
+  flowStep?: string | null;
+  awaiting?: string | null;
+  variables?: Record<string, string>;
+  needsLookup?: boolean;
+  lookupUrl?: string;
+  lookupTemplate?: string;
+  lookupNotFound?: string;
+  inputType?: string;
+  replyMessage?: { text?: string };
+  reason?: string;
+};
+
+type SendRequestPreview = {
+  node: string;
+  url: string;
+  body: unknown;
+  problems: string[];
+};
+
+type LintFinding = {
+  severity: "error" | "warning";
+  message: string;
+};
+
+type SimulationResult =
+  | { ok: true; items: SimulatedItem[]; staticData: Record<string, unknown> }
+  | { ok: false; error: string };
+
+type ProjectData = {
+  form: FormState;
+  keywordInput: string;
+  richReplies: Record<string, RichReply>;
+};
+
+type WorkflowExport = {
+  exportedAt: string;
+  // Generated with every set secret replaced by MASKED_SECRET, so the export
+  // can be saved in the browser and still compared against.
+  workflowJson: string;
+  secretsMasked: true;
+};
+
+type BuilderProject = ProjectData & {
+  id: string;
+  name: string;
+  updatedAt: string;
+  identity: WorkflowIdentity;
+  lastExport?: WorkflowExport;
+  // The n8n workflow this bot was last deployed to, so redeploying it
+  // updates that workflow even after switching between bots.
+  deployedWorkflowId?: string;
+};
+
+type WorkflowChange = {
+  section: "routes" | "replies" | "settings";
+  kind: "added" | "removed" | "changed";
+  label: string;
+  before?: string;
+  after?: string;
+};
+
+type ProjectStore = {
+  activeProjectId: string;
+  projects: BuilderProject[];
 };
 
 const DEFAULT_ROUTES: KeywordRoute[] = [
   {
-    phrase: "status",
+    phrases: ["status", "where is my order"],
     reply:
-      "Sure thing! Send me your order number and I will pull up the latest status for you."
+      "Sure thing! Send me your order number and I will pull up the latest status for you.",
+    matchMode: "contains",
+    priority: 0,
+    action: "reply",
+    awaiting: "order_status"
   },
   {
-    phrase: "refund",
+    phrases: ["refund", "money back"],
     reply:
-      "I can help with refunds. Please share your order number and the reason for the refund so our team can review it quickly."
+      "I can help with refunds. Please share your order number first so our team can review it quickly.",
+    matchMode: "contains",
+    priority: 0,
+    action: "reply",
+    awaiting: "refund_order"
   },
   {
-    phrase: "agent",
+    phrases: ["agent", "human"],
     reply:
-      "I'm looping in a human teammate right away. Expect a reply within a few minutes during business hours."
+      "I'm looping in a human teammate right away. Expect a reply within a few minutes during business hours.",
+    matchMode: "word",
+    priority: 10,
+    action: "handover"
   }
 ];
 
-const DEFAULT_KEYWORD_INPUT = DEFAULT_ROUTES.map(
-  (route) => `${route.phrase} => ${route.reply}`
-).join("\n");
+const DEFAULT_KEYWORD_INPUT = formatKeywordInput(DEFAULT_ROUTES);
+
+const RICH_REPLY_LABELS: Record<RichReply["type"], string> = {
+  quickReplies: "Quick-reply chips",
+  buttons: "Button template",
+  carousel: "Generic carousel"
+};
+
+// Send API limits for each structure.
+const MAX_QUICK_REPLIES = 13;
+const MAX_BUTTONS = 3;
+const MAX_CAROUSEL_CARDS = 10;
+const MAX_BUTTON_TITLE = 20;
+
+const SECRET_STORAGE_CHOICES: { value: SecretStorage; label: string }[] = [
+  { value: "inline", label: "Embed tokens in the workflow JSON" },
+  { value: "credentials", label: "Use an n8n credential and environment variable" }
+];
+
+// Send API text limits; Meta rejects longer messages outright.
+const MESSENGER_TEXT_LIMIT = 2000;
+const WHATSAPP_TEXT_LIMIT = 4096;
+
+const LOG_SINK_CHOICES: { value: LogSink; label: string }[] = [
+  { value: "off", label: "Do not log conversations" },
+  { value: "postgres", label: "Insert rows into Postgres" },
+  { value: "googleSheets", label: "Append rows to a Google Sheet" },
+  { value: "http", label: "POST each row to an HTTP endpoint" }
+];
+
+const LOCALE_DETECTIONS: { value: LocaleDetection; label: string }[] = [
+  { value: "profile", label: "Messenger profile locale, then message language" },
+  { value: "text", label: "Message language only" }
+];
+
+const N8N_TARGETS: { value: N8nTarget; label: string }[] = [
+  { value: "legacy", label: "n8n 0.x — Function node, HTTP Request v1" },
+  { value: "current", label: "n8n 1.x — Code node, HTTP Request v4" }
+];
+
+const ALERT_TARGETS: { value: AlertTarget; label: string }[] = [
+  { value: "none", label: "Only mark the execution" },
+  { value: "email", label: "Send an email" },
+  { value: "slack", label: "Post to a Slack webhook" },
+  { value: "errorWorkflow", label: "Run an n8n error workflow" }
+];
+
+const SETTING_LABELS: Record<keyof FormState, string> = {
+  automationName: "Automation name",
+  channels: "Channels",
+  verifyToken: "Verify token",
+  pageAccessToken: "Page access token",
+  whatsappAccessToken: "WhatsApp access token",
+  secretStorage: "Secret handling",
+  pageTokenCredential: "Page token credential",
+  whatsappTokenCredential: "WhatsApp token credential",
+  verifyTokenEnv: "Verify token variable",
+  appSecret: "App secret",
+  appSecretEnv: "App secret variable",
+  webhookPath: "Webhook path",
+  defaultReply: "Default reply",
+  timezone: "Timezone",
+  schedule: "Business hours",
+  handoverTargetAppId: "Handover target app",
+  handoverPauseMinutes: "Handover pause (minutes)",
+  aiFallback: "AI fallback",
+  aiApiKey: "AI API key",
+  aiKeyCredential: "AI key credential",
+  logging: "Conversation log",
+  errorHandling: "Send retries and alerts",
+  slackWebhookUrl: "Slack webhook URL",
+  n8nTarget: "n8n target version",
+  localization: "Languages",
+  flows: "Conversation flows",
+  lookup: "Order lookup",
+  lookupAuthValue: "Order lookup auth header",
+  lookupCredential: "Order lookup credential"
+};
+
+const CHANGE_SECTION_LABELS: Record<WorkflowChange["section"], string> = {
+  routes: "Routes",
+  replies: "Replies",
+  settings: "Settings"
+};
+
+const PROJECT_STORAGE_KEY = "messenger-n8n-builder:projects";
+const MASKED_SECRET = "masked-secret";
+const CONFIG_FRAGMENT_KEY = "config";
+
+const DEFAULT_PROJECT_DATA: ProjectData = {
+  form: DEFAULT_FORM,
+  keywordInput: DEFAULT_KEYWORD_INPUT,
+  richReplies: {}
+};
+
+const SIMULATOR_MODES: { value: SimulatorMode; label: string }[] = [
+  { value: "message", label: "Message text" },
+  { value: "webhook", label: "Raw webhook body" },
+  { value: "verification", label: "Verification query" }
+];
 
 const TIMEZONE_CHOICES = [
   { value: "America/New_York", label: "New York (UTC-05:00)" },
@@ -47,533 +323,4361 @@ const TIMEZONE_CHOICES = [
   { value: "Asia/Singapore", label: "Singapore (UTC+08:00)" }
 ];
 
-function sanitizeWebhookPath(name: string) {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)+/g, "");
+function findRouteWarnings(routes: KeywordRoute[]): string[] {
+  const warnings: string[] = [];
+  const firstUse = new Map<string, number>();
+  routes.forEach((route, index) => {
+    const label = `Route ${index + 1}`;
+    if (!route.phrases.length) {
+      warnings.push(`${label} has no phrases and is left out of the workflow.`);
+      return;
+    }
+    if (!isRouteComplete(route)) {
+      warnings.push(
+        `${label} (${route.phrases[0]}) has an empty reply and is left out of the workflow.`
+      );
+    }
+    Object.entries(route.translations ?? {}).forEach(([locale, translation]) => {
+      if (!translation.reply) {
+        warnings.push(
+          `${label} (${route.phrases[0]}) has an empty "${locale}" reply; the main reply is sent instead.`
+        );
+      }
+    });
+    if (route.matchMode === "regex") {
+      return;
+    }
+    for (const phrase of route.phrases.map((value) => value.toLowerCase())) {
+      const previous = firstUse.get(phrase);
+      if (previous === undefined) {
+        firstUse.set(phrase, index);
+      } else if (previous !== index) {
+        warnings.push(
+          `"${phrase}" is used by routes ${previous + 1} and ${index + 1}; only the higher priority (or earlier) route will ever answer it.`
+        );
+      }
+    }
+  });
+  return warnings;
 }
 
-function parseKeywordInput(value: string): KeywordRoute[] {
-  return value
-    .split("\n")
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((line) => {
-      const [phrasePart, replyPart] = line.split("=>").map((part) => part.trim());
-      if (!phrasePart || !replyPart) {
-        return null;
+function findFlowProblems(
+  flows: ConversationFlows,
+  routes: KeywordRoute[]
+): string[] {
+  const problems: string[] = [];
+  const ids = flows.steps.map((step) => step.id);
+  flows.steps.forEach((step, index) => {
+    const label = step.id ? `Step "${step.id}"` : `Step ${index + 1}`;
+    if (!step.id) {
+      problems.push(`${label} has no name, so nothing can lead to it.`);
+    } else if (ids.indexOf(step.id) !== index) {
+      problems.push(`${label} is defined twice; only the last one is used.`);
+    }
+    if (step.pattern.trim()) {
+      try {
+        new RegExp(step.pattern, "i");
+      } catch (error) {
+        problems.push(
+          `${label} has an invalid pattern (${error instanceof Error ? error.message : String(error)}) and rejects every answer.`
+        );
       }
+      if (!step.retryReply.trim()) {
+        problems.push(
+          `${label} has no reply for rejected answers; the default reply is sent instead.`
+        );
+      }
+    }
+    if (!step.reply.trim()) {
+      problems.push(`${label} has an empty reply.`);
+    }
+    if (step.next && !ids.includes(step.next)) {
+      problems.push(`${label} continues to the unknown step "${step.next}".`);
+    }
+  });
+  routes.forEach((route, index) => {
+    if (route.awaiting && !ids.includes(route.awaiting)) {
+      problems.push(
+        `Route ${index + 1} (${route.phrases[0] ?? ""}) awaits the unknown step "${route.awaiting}".`
+      );
+    }
+  });
+  return problems;
+}
+
+// Follows a flow from its first step until it ends, loops back or reaches
+// a step that does not exist.
+function traceFlowPath(flows: ConversationFlows, start: string) {
+  const path: FlowStep[] = [];
+  let next = start;
+  while (next) {
+    const step = flows.steps.find((candidate) => candidate.id === next);
+    if (!step) {
+      return { path, end: `missing ${next}` };
+    }
+    if (path.includes(step)) {
+      return { path, end: `back to ${next}` };
+    }
+    path.push(step);
+    next = step.next;
+  }
+  return { path, end: "end" };
+}
+
+// Rich replies are edited outside the one-line route syntax and follow a
+// route by its first phrase.
+function getRouteKey(route: KeywordRoute) {
+  return (route.phrases[0] ?? "").toLowerCase();
+}
+
+function attachRichReplies(
+  routes: KeywordRoute[],
+  richReplies: Record<string, RichReply>
+): KeywordRoute[] {
+  return routes.map((route) => {
+    const richReply = richReplies[getRouteKey(route)];
+    return richReply ? { ...route, richReply } : route;
+  });
+}
+
+function createRichReply(type: RichReply["type"]): RichReply {
+  switch (type) {
+    case "quickReplies":
       return {
-        phrase: phrasePart,
-        reply: replyPart
+        type,
+        options: [
+          { title: "Order status", payload: "status" },
+          { title: "Talk to a human", payload: "agent" }
+        ]
       };
-    })
-    .filter((route): route is KeywordRoute => Boolean(route));
+    case "buttons":
+      return {
+        type,
+        buttons: [{ type: "postback", title: "Order status", value: "status" }]
+      };
+    case "carousel":
+      return {
+        type,
+        cards: [
+          {
+            title: "New arrivals",
+            subtitle: "",
+            imageUrl: "",
+            buttons: [{ type: "web_url", title: "Shop now", value: "https://" }]
+          }
+        ]
+      };
+  }
+}
+
+function findInvalidPatterns(routes: KeywordRoute[]) {
+  return routes.flatMap((route) =>
+    route.matchMode === "regex"
+      ? [
+          ...route.phrases,
+          ...Object.values(route.translations ?? {}).flatMap(
+            (translation) => translation.phrases
+          )
+        ].flatMap((pattern) => {
+          try {
+            new RegExp(pattern, "i");
+            return [];
+          } catch (error) {
+            return [
+              {
+                pattern,
+                message: error instanceof Error ? error.message : String(error)
+              }
+            ];
+          }
+        })
+      : []
+  );
 }
 
-function generateUuid(label: string) {
-  return `${label}-${crypto.randomUUID()}`;
+// An earlier route hides a phrase when every message containing that phrase
+// also matches the earlier route. Regex routes cannot be compared and are
+// skipped; phrases match exactly as in Normalize Event.
+function findShadowedPhrases(routes: KeywordRoute[]): string[] {
+  const ranked = routes
+    .map((route, index) => ({ route, index }))
+    .filter(({ route }) => route.matchMode !== "regex")
+    .sort((a, b) => b.route.priority - a.route.priority || a.index - b.index);
+  return ranked.flatMap(({ route, index }, rank) =>
+    route.phrases.flatMap((phrase) => {
+      const winner = ranked
+        .slice(0, rank)
+        .find(
+          (earlier) =>
+            (earlier.route.matchMode !== "startsWith" ||
+              route.matchMode === "startsWith") &&
+            earlier.route.phrases.some((earlierPhrase) =>
+              toPhrasePattern(earlier.route.matchMode, earlierPhrase).test(
+                phrase
+              )
+            )
+        );
+      return winner
+        ? [
+            `"${phrase}" (route ${index + 1}) never answers: route ${winner.index + 1} (${winner.route.phrases[0]}) matches every message containing it first.`
+          ]
+        : [];
+    })
+  );
 }
 
-function generateWorkflowJson(
+// Runs over the builder settings, the exported routes and the generated
+// graph itself, so anything that would break in n8n or at Meta shows up
+// before the file leaves the builder.
+function lintWorkflow(
   form: FormState,
-  keywordRoutes: KeywordRoute[]
-): string {
-  const timestamp = new Date().toISOString();
-  const webhookNodeId = generateUuid("webhook");
-  const functionNodeId = generateUuid("function");
-  const verificationNodeId = generateUuid("respond-verification");
-  const routeVerificationNodeId = generateUuid("route-verification");
-  const shouldReplyNodeId = generateUuid("route-reply");
-  const sendMessageNodeId = generateUuid("send-message");
-  const webhookAckNodeId = generateUuid("respond-ack");
-  const workflowId = generateUuid("workflow");
-
-  const webhookPath = form.webhookPath || sanitizeWebhookPath(form.automationName);
-
-  const functionCode = `
-const query = $json.query ?? {};
-const body = $json.body ?? {};
-const verifyToken = ${JSON.stringify(form.verifyToken.trim())};
-const keywordRoutes = ${JSON.stringify(keywordRoutes)};
-const normalizedRoutes = keywordRoutes.map((route) => ({
-  phrase: route.phrase.toLowerCase(),
-  reply: route.reply
-}));
-
-if (query["hub.mode"] === "subscribe") {
-  const tokenMatches = query["hub.verify_token"] === verifyToken;
-  return [
-    {
-      json: {
-        isVerification: true,
-        statusCode: tokenMatches ? 200 : 403,
-        responseBody: tokenMatches
-          ? query["hub.challenge"] ?? "Verification challenge missing."
-          : "Verification token mismatch.",
-        tokenMatches
+  keywordRoutes: KeywordRoute[],
+  workflowJson: string
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const error = (message: string) => findings.push({ severity: "error", message });
+  const warning = (message: string) =>
+    findings.push({ severity: "warning", message });
+
+  const workflow = safeJsonParse(workflowJson) as
+    | { nodes?: WorkflowNode[]; connections?: Record<string, { main?: { node: string }[][] }> }
+    | undefined;
+  const nodes = workflow?.nodes ?? [];
+  const nodeNames = new Set(nodes.map((node) => node.name));
+
+  if (form.secretStorage === "inline" && !form.verifyToken.trim()) {
+    error("The verify token is empty, so Meta can never verify the webhook.");
+  }
+  const webhookPath = nodes.find((node) => node.name === "Messenger Webhook")
+    ?.parameters?.path;
+  if (!webhookPath) {
+    error("The webhook path is empty; set one in Messenger Settings.");
+  } else if (!form.webhookPath.trim()) {
+    warning(
+      `The webhook path is empty, so the workflow falls back to "${webhookPath}".`
+    );
+  }
+
+  // Tokens are checked where they end up: in the Graph API nodes.
+  nodes
+    .filter((node) => node.type === "n8n-nodes-base.httpRequest")
+    .forEach((node) => {
+      const { query } = readHttpParameters(node);
+      if (!("access_token" in query)) {
+        return;
       }
-    }
+      if (query.access_token === PLACEHOLDER_PAGE_TOKEN) {
+        error(
+          `${node.name} still uses the placeholder token ${PLACEHOLDER_PAGE_TOKEN}.`
+        );
+      } else if (!String(query.access_token ?? "").trim()) {
+        error(`${node.name} sends an empty access token.`);
+      }
+    });
+
+  Object.entries(workflow?.connections ?? {}).forEach(([source, outputs]) =>
+    (outputs.main ?? []).flat().forEach((target) => {
+      if (!nodeNames.has(target.node)) {
+        error(`${source} connects to "${target.node}", which is not in the workflow.`);
+      }
+    })
+  );
+
+  if (!keywordRoutes.length) {
+    warning("There are no complete keyword routes; every message gets the default reply.");
+  }
+  findInvalidPatterns(keywordRoutes).forEach(({ pattern, message }) =>
+    error(`The regex "${pattern}" is invalid (${message}); the route never matches it.`)
+  );
+  findShadowedPhrases(keywordRoutes).forEach(warning);
+
+  const sendsToMessenger = form.channels.some((channel) => channel !== "whatsapp");
+  const limit = sendsToMessenger ? MESSENGER_TEXT_LIMIT : WHATSAPP_TEXT_LIMIT;
+  const replies: [string, string][] = [
+    ["The default reply", form.defaultReply],
+    ...keywordRoutes.flatMap((route, index): [string, string][] => [
+      [`Route ${index + 1} (${route.phrases[0]})`, route.reply],
+      ...Object.entries(route.translations ?? {}).map(
+        ([locale, translation]): [string, string] => [
+          `Route ${index + 1} (${route.phrases[0]}) in "${locale}"`,
+          translation.reply
+        ]
+      )
+    ]),
+    ...(isLocalizationEnabled(form)
+      ? Object.entries(form.localization.defaultReplies).map(
+          ([locale, reply]): [string, string] => [
+            `The "${locale}" default reply`,
+            reply
+          ]
+        )
+      : []),
+    ...(usesFlows(form, keywordRoutes)
+      ? form.flows.steps.flatMap((step): [string, string][] => [
+          [`Step "${step.id}"`, step.reply],
+          [`Step "${step.id}" retry`, step.retryReply]
+        ])
+      : []),
+    ...(form.schedule.enabled
+      ? [["The after-hours reply", form.schedule.afterHoursReply] as [string, string]]
+      : []),
+    ...(usesLookup(form, keywordRoutes)
+      ? [["The order lookup not found reply", form.lookup.notFoundReply] as [string, string]]
+      : [])
   ];
+  replies.forEach(([label, reply]) => {
+    if (reply.trim().length > limit) {
+      error(
+        `${label} is ${reply.trim().length} characters; ${sendsToMessenger ? "Messenger" : "WhatsApp"} rejects replies over ${limit}.`
+      );
+    }
+  });
+  return findings;
 }
 
-const entry = Array.isArray(body.entry) ? body.entry[0] : undefined;
-const messaging = entry?.messaging?.[0];
-const senderId = messaging?.sender?.id ?? "";
-const messageText = messaging?.message?.text ?? "";
+function createWorkflowIdentity(seed: string): WorkflowIdentity {
+  return { seed, createdAt: new Date().toISOString() };
+}
 
-if (!senderId || !messageText) {
-  return [
-    {
-      json: {
-        isVerification: false,
-        shouldReply: false,
-        statusCode: 200,
-        responseBody: "EVENT_RECEIVED",
-        reason: "No message text or sender detected.",
-        rawEvent: body
-      }
-    }
-  ];
+function restoreWorkflowIdentity(
+  value: unknown,
+  projectId: string
+): WorkflowIdentity {
+  const identity = value as Partial<WorkflowIdentity> | undefined;
+  return {
+    seed: typeof identity?.seed === "string" ? identity.seed : projectId,
+    createdAt:
+      typeof identity?.createdAt === "string"
+        ? identity.createdAt
+        : new Date().toISOString()
+  };
 }
 
-const normalizedText = messageText.toLowerCase();
-const matchedRoute = normalizedRoutes.find((route) =>
-  normalizedText.includes(route.phrase)
-);
+function readEmbeddedValue(code: string, pattern: RegExp): unknown {
+  const match = code.match(pattern);
+  return match ? safeJsonParse(match[1]) : undefined;
+}
 
-const replyText = matchedRoute?.reply ?? ${JSON.stringify(
-    form.defaultReply.trim()
-  )};
+function readEmbeddedSecret(
+  code: string,
+  variable: string
+): { env?: string; value?: string } | undefined {
+  const env = readEmbeddedValue(
+    code,
+    new RegExp(`^const ${variable} = \\$env\\[(.*)\\] \\?\\? "";$`, "m")
+  );
+  if (typeof env === "string") {
+    return { env };
+  }
+  const value = readEmbeddedValue(
+    code,
+    new RegExp(`^const ${variable} = (.*);$`, "m")
+  );
+  return typeof value === "string" ? { value } : undefined;
+}
 
-return [
-  {
-    json: {
-      isVerification: false,
-      shouldReply: true,
-      statusCode: 200,
-      responseBody: "EVENT_RECEIVED",
-      senderId,
-      replyText,
-      matchedPhrase: matchedRoute?.phrase ?? null,
-      rawEvent: body
+function importBusinessHours(
+  value: unknown,
+  issues: string[]
+): BusinessSchedule {
+  const businessHours = value as {
+    days?: Partial<Record<Weekday, unknown>>;
+    holidays?: unknown;
+    afterHoursReply?: unknown;
+    afterHoursMode?: unknown;
+  };
+  const days = { ...DEFAULT_SCHEDULE.days };
+  for (const { value: weekday, label } of WEEKDAYS) {
+    const hours = businessHours.days?.[weekday];
+    if (
+      Array.isArray(hours) &&
+      typeof hours[0] === "string" &&
+      typeof hours[1] === "string"
+    ) {
+      days[weekday] = { open: true, from: hours[0], to: hours[1] };
+    } else if (hours === null) {
+      days[weekday] = { ...days[weekday], open: false };
+    } else {
+      issues.push(`Could not read the opening hours for ${label}.`);
     }
   }
-];
-  `.trim();
-
-  const workflow = {
-    id: workflowId,
-    name: form.automationName || "Messenger Automation",
-    active: false,
-    createdAt: timestamp,
-    updatedAt: timestamp,
-    versionId: generateUuid("version"),
-    nodes: [
-      {
-        id: webhookNodeId,
-        name: "Messenger Webhook",
-        type: "n8n-nodes-base.webhook",
-        typeVersion: 1,
-        position: [-520, 300],
-        parameters: {
-          httpMethod: "POST",
-          path: webhookPath,
-          responseMode: "responseNode",
-          options: {
-            rawBody: false
-          }
-        },
-        webhookId: generateUuid("webhook-path")
-      },
-      {
-        id: functionNodeId,
-        name: "Normalize Event",
-        type: "n8n-nodes-base.function",
-        typeVersion: 1,
-        position: [-220, 300],
-        parameters: {
-          functionCode
-        }
-      },
-      {
-        id: routeVerificationNodeId,
-        name: "Route Verification",
-        type: "n8n-nodes-base.if",
-        typeVersion: 1,
-        position: [40, 300],
-        parameters: {
-          conditions: {
-            boolean: [
-              {
-                value1: "={{$json.isVerification}}",
-                operation: "isTrue"
-              }
-            ]
-          }
-        }
-      },
-      {
-        id: verificationNodeId,
-        name: "Respond Verification",
-        type: "n8n-nodes-base.respondToWebhook",
-        typeVersion: 1,
-        position: [320, 120],
-        parameters: {
-          respondWith: "json",
-          responseBody: "={{$json.responseBody}}",
-          responseCode: "={{$json.statusCode}}"
-        }
-      },
-      {
-        id: shouldReplyNodeId,
-        name: "Should Reply?",
-        type: "n8n-nodes-base.if",
-        typeVersion: 1,
-        position: [320, 460],
-        parameters: {
-          conditions: {
-            boolean: [
-              {
-                value1: "={{$json.shouldReply}}",
-                operation: "isTrue"
-              }
-            ]
-          }
-        }
-      },
-      {
-        id: sendMessageNodeId,
-        name: "Send Messenger Reply",
-        type: "n8n-nodes-base.httpRequest",
-        typeVersion: 1,
-        position: [620, 420],
-        parameters: {
-          method: "POST",
-          url: "https://graph.facebook.com/v18.0/me/messages",
-          authentication: "none",
-          jsonParameters: true,
-          sendBody: true,
-          options: {
-            fullResponse: false
-          },
-          bodyParametersJson:
-            '{"messaging_type":"RESPONSE","recipient":{"id":"={{$json.senderId}}"},"message":{"text":"={{$json.replyText}}"}}',
-          queryParametersJson: `{"access_token":"${form.pageAccessToken.trim()}"}`,
-          headerParametersJson: '{"Content-Type":"application/json"}'
-        }
-      },
-      {
-        id: webhookAckNodeId,
-        name: "Respond OK",
-        type: "n8n-nodes-base.respondToWebhook",
-        typeVersion: 1,
-        position: [880, 580],
-        parameters: {
-          respondWith: "json",
-          responseBody: "={{$json.responseBody}}",
-          responseCode: "={{$json.statusCode}}"
-        }
-      }
-    ],
-    connections: {
-      "Messenger Webhook": {
-        main: [
-          [
-            {
-              node: "Normalize Event",
-              type: "main",
-              index: 0
-            }
-          ]
-        ]
-      },
-      "Normalize Event": {
-        main: [
-          [
-            {
-              node: "Route Verification",
-              type: "main",
-              index: 0
-            }
-          ]
-        ]
-      },
-      "Route Verification": {
-        main: [
-          [
-            {
-              node: "Respond Verification",
-              type: "main",
-              index: 0
-            }
-          ],
-          [
-            {
-              node: "Should Reply?",
-              type: "main",
-              index: 0
-            }
-          ]
-        ]
-      },
-      "Should Reply?": {
-        main: [
-          [
-            {
-              node: "Send Messenger Reply",
-              type: "main",
-              index: 0
-            }
-          ],
-          [
-            {
-              node: "Respond OK",
-              type: "main",
-              index: 0
-            }
-          ]
-        ]
-      },
-      "Send Messenger Reply": {
-        main: [
-          [
-            {
-              node: "Respond OK",
-              type: "main",
-              index: 0
-            }
-          ]
-        ]
-      }
-    },
-    settings: {
-      timezone: form.timezone
-    },
-    pinData: {},
-    staticData: {}
+  return {
+    enabled: true,
+    days,
+    holidays: Array.isArray(businessHours.holidays)
+      ? businessHours.holidays.join("\n")
+      : "",
+    afterHoursReply:
+      typeof businessHours.afterHoursReply === "string"
+        ? businessHours.afterHoursReply
+        : DEFAULT_SCHEDULE.afterHoursReply,
+    afterHoursMode:
+      businessHours.afterHoursMode === "suffix" ? "suffix" : "replace"
   };
-
-  return JSON.stringify(workflow, null, 2);
 }
 
-export default function Page() {
-  const [form, setForm] = useState<FormState>({
-    automationName: "Messenger Concierge",
-    verifyToken: "my-secure-verification-token",
-    pageAccessToken: "EAAGYourPageAccessToken",
-    webhookPath: `facebook/${sanitizeWebhookPath("Messenger Concierge")}`,
-    defaultReply:
-      "Thanks for reaching out! I'm a virtual assistant. Share a few details and I'll route you to the best next step (human support when needed).",
-    timezone: "America/New_York"
-  });
+function importFlows(value: unknown): ConversationFlows {
+  const flows = value as
+    | { timeoutMinutes?: unknown; steps?: Record<string, Partial<FlowStep>> }
+    | null
+    | undefined;
+  if (!flows) {
+    return DEFAULT_FLOWS;
+  }
+  const text = (field: unknown) => (typeof field === "string" ? field : "");
+  return {
+    timeoutMinutes:
+      typeof flows.timeoutMinutes === "number"
+        ? flows.timeoutMinutes
+        : DEFAULT_FLOWS.timeoutMinutes,
+    steps: Object.entries(flows.steps ?? {}).map(([id, step]) => ({
+      id,
+      variable: text(step.variable),
+      pattern: text(step.pattern),
+      reply: text(step.reply),
+      retryReply: text(step.retryReply),
+      next: text(step.next),
+      lookup: step.lookup === true
+    }))
+  };
+}
 
-  const [keywordInput, setKeywordInput] = useState(DEFAULT_KEYWORD_INPUT);
-  const [copyStatus, setCopyStatus] = useState<"idle" | "success" | "error">(
-    "idle"
+function importLocalization(value: unknown, issues: string[]): Localization {
+  const localization = value as
+    | {
+        defaultLocale?: unknown;
+        locales?: unknown;
+        lookUpProfile?: unknown;
+        defaultReplies?: unknown;
+      }
+    | null
+    | undefined;
+  if (!localization) {
+    return DEFAULT_LOCALIZATION;
+  }
+  const embedded = Array.isArray(localization.locales)
+    ? localization.locales
+    : [];
+  const locales = LOCALES.map((choice) => choice.value).filter((locale) =>
+    embedded.includes(locale)
   );
+  if (locales.length !== embedded.length) {
+    issues.push(
+      "Some languages are not in the builder list and were dropped."
+    );
+  }
+  const defaultLocale =
+    typeof localization.defaultLocale === "string" &&
+    locales.includes(localization.defaultLocale)
+      ? localization.defaultLocale
+      : locales[0] ?? DEFAULT_LOCALIZATION.defaultLocale;
+  const defaultReplies = Object.entries(
+    (localization.defaultReplies ?? {}) as Record<string, unknown>
+  ).filter((entry): entry is [string, string] => typeof entry[1] === "string");
+  return {
+    enabled: locales.length > 0,
+    defaultLocale,
+    locales,
+    detection: localization.lookUpProfile === false ? "text" : "profile",
+    defaultReplies: {
+      ...DEFAULT_LOCALIZATION.defaultReplies,
+      ...Object.fromEntries(defaultReplies)
+    }
+  };
+}
 
-  const keywordRoutes = useMemo(
-    () => parseKeywordInput(keywordInput),
-    [keywordInput]
-  );
+// Function nodes keep their code in functionCode, Code nodes in jsCode.
+function readNodeCode(node: WorkflowNode | undefined) {
+  const code = node?.parameters?.functionCode ?? node?.parameters?.jsCode;
+  return typeof code === "string" ? code : undefined;
+}
 
-  const workflowJson = useMemo(
-    () => generateWorkflowJson(form, keywordRoutes),
-    [form, keywordRoutes]
-  );
+// Newer node versions wrap picked values as { __rl: true, value }.
+function readResourceValue(value: unknown) {
+  return value && typeof value === "object" && "value" in value
+    ? (value as { value: unknown }).value
+    : value;
+}
 
-  const handleCopy = async () => {
-    try {
-      await navigator.clipboard.writeText(workflowJson);
-      setCopyStatus("success");
-      setTimeout(() => setCopyStatus("idle"), 2600);
-    } catch (error) {
-      console.error("Copy failed", error);
-      setCopyStatus("error");
-      setTimeout(() => setCopyStatus("idle"), 2600);
+// HTTP Request v1 holds query and headers as JSON strings, v4 as
+// name/value lists.
+function readHttpParameters(node: WorkflowNode | undefined) {
+  const parameters = node?.parameters ?? {};
+  const readPairs = (json: unknown, list: unknown): Record<string, unknown> => {
+    if (typeof json === "string") {
+      const parsed = safeJsonParse(json);
+      return parsed && typeof parsed === "object"
+        ? (parsed as Record<string, unknown>)
+        : {};
     }
+    const pairs = (list as { parameters?: unknown } | undefined)?.parameters;
+    return Array.isArray(pairs)
+      ? Object.fromEntries(
+          pairs.map((pair: { name?: unknown; value?: unknown }) => [
+            String(pair.name),
+            pair.value
+          ])
+        )
+      : {};
   };
+  const timeout = (parameters.options as { timeout?: unknown } | undefined)
+    ?.timeout;
+  return {
+    url: typeof parameters.url === "string" ? parameters.url : undefined,
+    query: readPairs(parameters.queryParametersJson, parameters.queryParameters),
+    headers: readPairs(
+      parameters.headerParametersJson,
+      parameters.headerParameters
+    ),
+    timeout: typeof timeout === "number" ? timeout : undefined
+  };
+}
 
-  const handleDownload = () => {
-    const blob = new Blob([workflowJson], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${sanitizeWebhookPath(form.automationName) || "workflow"}.json`;
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    URL.revokeObjectURL(url);
+function importLogSink(node: WorkflowNode | undefined): ConversationLog {
+  const parameters = node?.parameters ?? {};
+  const text = (value: unknown, fallback: string) => {
+    const resolved = readResourceValue(value);
+    return typeof resolved === "string" ? resolved : fallback;
   };
+  switch (node?.type) {
+    case "n8n-nodes-base.postgres":
+      return {
+        ...DEFAULT_LOGGING,
+        sink: "postgres",
+        postgresTable: text(parameters.table, DEFAULT_LOGGING.postgresTable),
+        postgresCredential: text(
+          node.credentials?.postgres?.name,
+          DEFAULT_LOGGING.postgresCredential
+        )
+      };
+    case "n8n-nodes-base.googleSheets":
+      return {
+        ...DEFAULT_LOGGING,
+        sink: "googleSheets",
+        sheetId: text(parameters.sheetId ?? parameters.documentId, ""),
+        sheetRange:
+          typeof parameters.range === "string"
+            ? parameters.range
+            : parameters.sheetName
+              ? `${text(parameters.sheetName, "Sheet1")}!A:J`
+              : DEFAULT_LOGGING.sheetRange,
+        sheetsCredential: text(
+          node.credentials?.googleSheetsOAuth2Api?.name,
+          DEFAULT_LOGGING.sheetsCredential
+        )
+      };
+    case "n8n-nodes-base.httpRequest":
+      return {
+        ...DEFAULT_LOGGING,
+        sink: "http",
+        httpUrl: text(parameters.url, "")
+      };
+    default:
+      return DEFAULT_LOGGING;
+  }
+}
 
-  return (
-    <main className="container">
-      <section className="panel">
-        <div className="badge">Messenger · n8n workflow</div>
-        <h1 style={{ fontSize: "2.6rem", margin: "0 0 18px" }}>
-          Launch a Messenger Concierge in minutes
-        </h1>
-        <p style={{ maxWidth: 720, marginBottom: 32 }}>
-          This generator crafts a production-ready n8n workflow that catches
-          Facebook Messenger events, handles webhook verification, triages
-          keywords, and responds instantly while keeping your thread open for
-          human takeover. Customize the responses, copy the JSON, and import into
-          your n8n instance.
-        </p>
+function importWorkflowJson(source: string): WorkflowImport {
+  const form: Partial<FormState> = {};
+  const issues: string[] = [];
+  let keywordRoutes: KeywordRoute[] | null = null;
 
-        <div className="grid">
-          <div className="panel" style={{ padding: 28 }}>
-            <h2>Messenger Settings</h2>
-            <div className="input-grid">
+  const workflow = safeJsonParse(source) as
+    | {
+        name?: unknown;
+        nodes?: unknown;
+        settings?: { timezone?: unknown; errorWorkflow?: unknown };
+      }
+    | undefined;
+  if (!workflow || typeof workflow !== "object") {
+    return {
+      form,
+      keywordRoutes,
+      issues: ["The file is not a valid n8n workflow JSON object."]
+    };
+  }
+
+  const nodes: WorkflowNode[] = Array.isArray(workflow.nodes)
+    ? workflow.nodes
+    : [];
+  const findNode = (name: string) => nodes.find((node) => node.name === name);
+
+  if (typeof workflow.name === "string" && workflow.name.trim()) {
+    form.automationName = workflow.name;
+  } else {
+    issues.push("Workflow name is missing; keeping the current name.");
+  }
+
+  const timezone = workflow.settings?.timezone;
+  if (typeof timezone === "string" && timezone) {
+    form.timezone = timezone;
+    if (!TIMEZONE_CHOICES.some((choice) => choice.value === timezone)) {
+      issues.push(
+        `Timezone "${timezone}" is not in the builder list; it was kept but cannot be re-selected.`
+      );
+    }
+  } else {
+    issues.push("settings.timezone is missing; keeping the current timezone.");
+  }
+
+  const webhookPath = findNode("Messenger Webhook")?.parameters?.path;
+  if (typeof webhookPath === "string" && webhookPath) {
+    form.webhookPath = webhookPath;
+  } else {
+    issues.push(
+      'No "Messenger Webhook" node with a path was found; keeping the current webhook path.'
+    );
+  }
+
+  const normalizeNode = findNode("Normalize Event");
+  form.n8nTarget =
+    normalizeNode?.type === "n8n-nodes-base.code" ? "current" : "legacy";
+  const functionCode = readNodeCode(normalizeNode);
+  if (functionCode === undefined) {
+    issues.push(
+      'No "Normalize Event" function node was found, so the verify token, keyword routes and default reply could not be imported.'
+    );
+  } else {
+    const verifyToken = readEmbeddedSecret(functionCode, "verifyToken");
+    if (verifyToken?.env !== undefined) {
+      form.verifyTokenEnv = verifyToken.env;
+      issues.push(
+        `The verify token is read from the $env.${verifyToken.env} variable; keeping the current token for the simulator.`
+      );
+    } else if (verifyToken?.value !== undefined) {
+      form.verifyToken = verifyToken.value;
+    } else {
+      issues.push("Could not read the verify token from Normalize Event.");
+    }
+
+    const routes = readEmbeddedValue(
+      functionCode,
+      /^const keywordRoutes = (.*);$/m
+    );
+    if (Array.isArray(routes)) {
+      keywordRoutes = routes
+        .map(normalizeImportedRoute)
+        .filter((route): route is KeywordRoute => Boolean(route));
+      if (keywordRoutes.length !== routes.length) {
+        issues.push(
+          `${routes.length - keywordRoutes.length} keyword route(s) had an unexpected shape and were skipped.`
+        );
+      }
+    } else {
+      issues.push("Could not read the keyword routes from Normalize Event.");
+    }
+
+    const defaultReply =
+      readEmbeddedValue(functionCode, /^const defaultReply = (.*);$/m) ??
+      readEmbeddedValue(
+        functionCode,
+        /^const replyText = matchedRoute\?\.reply \?\? (.*);$/m
+      );
+    if (typeof defaultReply === "string") {
+      form.defaultReply = defaultReply;
+    } else {
+      issues.push("Could not read the default reply from Normalize Event.");
+    }
+
+    const businessHours = readEmbeddedValue(
+      functionCode,
+      /^const businessHours = (.*);$/m
+    );
+    form.schedule = businessHours
+      ? importBusinessHours(businessHours, issues)
+      : DEFAULT_SCHEDULE;
+
+    // Workflows from before channel selection only served Messenger.
+    const channels = readEmbeddedValue(functionCode, /^const channels = (.*);$/m);
+    form.channels = Array.isArray(channels)
+      ? CHANNELS.map((choice) => choice.value).filter((channel) =>
+          channels.includes(channel)
+        )
+      : ["messenger"];
+    if (!form.channels.length) {
+      form.channels = ["messenger"];
+      issues.push("No known channel was enabled; falling back to Messenger.");
+    }
+
+    const handover = readEmbeddedValue(
+      functionCode,
+      /^const handover = (.*);$/m
+    ) as { targetAppId?: unknown; pauseMinutes?: unknown } | undefined;
+    if (typeof handover?.targetAppId === "string") {
+      form.handoverTargetAppId = handover.targetAppId;
+    }
+    if (typeof handover?.pauseMinutes === "number") {
+      form.handoverPauseMinutes = handover.pauseMinutes;
+    }
+
+    form.localization = importLocalization(
+      readEmbeddedValue(functionCode, /^const localization = (.*);$/m),
+      issues
+    );
+
+    form.flows = importFlows(
+      readEmbeddedValue(functionCode, /^const flows = (.*);$/m)
+    );
+
+    const aiFallback = readEmbeddedValue(
+      functionCode,
+      /^const aiFallback = (.*);$/m
+    ) as { model?: unknown; systemPrompt?: unknown } | null | undefined;
+    const askAi = findNode("Ask AI");
+    if (aiFallback && askAi) {
+      const { url, headers, timeout } = readHttpParameters(askAi);
+      const authorization = headers.Authorization;
+      form.aiFallback = {
+        enabled: true,
+        endpoint: url ?? DEFAULT_AI_FALLBACK.endpoint,
+        model:
+          typeof aiFallback.model === "string"
+            ? aiFallback.model
+            : DEFAULT_AI_FALLBACK.model,
+        systemPrompt:
+          typeof aiFallback.systemPrompt === "string"
+            ? aiFallback.systemPrompt
+            : DEFAULT_AI_FALLBACK.systemPrompt,
+        timeoutSeconds:
+          timeout !== undefined
+            ? timeout / 1000
+            : DEFAULT_AI_FALLBACK.timeoutSeconds
+      };
+      const credentialName = askAi.credentials?.httpHeaderAuth?.name;
+      if (typeof credentialName === "string") {
+        form.aiKeyCredential = credentialName;
+      } else if (typeof authorization === "string") {
+        form.aiApiKey = authorization.replace(/^Bearer\s+/i, "");
+      }
+    } else {
+      form.aiFallback = DEFAULT_AI_FALLBACK;
+    }
+
+    const lookup = readEmbeddedValue(
+      functionCode,
+      /^const lookup = (.*);$/m
+    ) as { endpoint?: unknown; notFoundReply?: unknown } | null | undefined;
+    const lookUpOrder = findNode("Look Up Order");
+    if (lookup && lookUpOrder) {
+      const { headers, timeout } = readHttpParameters(lookUpOrder);
+      const [authHeader, authValue] =
+        Object.entries(headers).find(([name]) => name !== "Content-Type") ??
+        [];
+      form.lookup = {
+        endpoint:
+          typeof lookup.endpoint === "string"
+            ? lookup.endpoint
+            : DEFAULT_LOOKUP.endpoint,
+        authHeader: authHeader ?? DEFAULT_LOOKUP.authHeader,
+        notFoundReply:
+          typeof lookup.notFoundReply === "string"
+            ? lookup.notFoundReply
+            : DEFAULT_LOOKUP.notFoundReply,
+        timeoutSeconds:
+          timeout !== undefined ? timeout / 1000 : DEFAULT_LOOKUP.timeoutSeconds
+      };
+      const credentialName = lookUpOrder.credentials?.httpHeaderAuth?.name;
+      if (typeof credentialName === "string") {
+        form.lookupCredential = credentialName;
+      } else if (typeof authValue === "string") {
+        form.lookupAuthValue = authValue;
+      }
+    } else {
+      form.lookup = DEFAULT_LOOKUP;
+    }
+  }
+
+  const signatureCode = readNodeCode(findNode("Verify Signature"));
+  const appSecret =
+    signatureCode !== undefined
+      ? readEmbeddedSecret(signatureCode, "appSecret")
+      : undefined;
+  if (appSecret?.env !== undefined) {
+    form.appSecretEnv = appSecret.env;
+  } else if (appSecret?.value !== undefined) {
+    form.appSecret = appSecret.value;
+  } else {
+    form.appSecret = "";
+    form.appSecretEnv = "";
+  }
+
+  form.logging = importLogSink(findNode("Log Conversation"));
+
+  const sendResultCode = readNodeCode(findNode("Check Send Results"));
+  const retry = (
+    sendResultCode !== undefined
+      ? readEmbeddedValue(sendResultCode, /^const retry = (.*);$/m)
+      : undefined
+  ) as { maxAttempts?: unknown; baseDelaySeconds?: unknown } | undefined;
+  const alertNode = findNode("Alert Failure");
+  const alertParameters = alertNode?.parameters ?? {};
+  const errorWorkflow = workflow.settings?.errorWorkflow;
+  form.errorHandling = {
+    ...DEFAULT_ERROR_HANDLING,
+    // Workflows from before retries sent each reply exactly once.
+    maxAttempts: typeof retry?.maxAttempts === "number" ? retry.maxAttempts : 1,
+    retryDelaySeconds:
+      typeof retry?.baseDelaySeconds === "number"
+        ? retry.baseDelaySeconds
+        : DEFAULT_ERROR_HANDLING.retryDelaySeconds
+  };
+  if (alertNode?.type === "n8n-nodes-base.emailSend") {
+    form.errorHandling.alert = "email";
+    form.errorHandling.alertEmail = String(alertParameters.toEmail ?? "");
+    form.errorHandling.alertFromEmail = String(alertParameters.fromEmail ?? "");
+    form.errorHandling.smtpCredential =
+      alertNode.credentials?.smtp?.name ?? DEFAULT_ERROR_HANDLING.smtpCredential;
+  } else if (alertNode?.type === "n8n-nodes-base.httpRequest") {
+    form.errorHandling.alert = "slack";
+    const url = String(alertParameters.url ?? "");
+    form.slackWebhookUrl = url.startsWith("=") ? "" : url;
+  } else if (alertNode || typeof errorWorkflow === "string") {
+    form.errorHandling.alert = "errorWorkflow";
+    form.errorHandling.errorWorkflowId =
+      typeof errorWorkflow === "string" ? errorWorkflow : "";
+  }
+
+  const readToken = (node: WorkflowNode | undefined) => ({
+    credential: node?.credentials?.httpQueryAuth?.name,
+    value: node ? readHttpParameters(node).query.access_token : undefined
+  });
+
+  const sendNode = findNode("Send Messenger Reply");
+  const pageToken = readToken(sendNode);
+  const servesMeta =
+    form.channels?.some((channel) => channel !== "whatsapp") ?? true;
+  if (typeof pageToken.credential === "string") {
+    form.secretStorage = "credentials";
+    form.pageTokenCredential = pageToken.credential;
+  } else if (typeof pageToken.value === "string") {
+    form.secretStorage = "inline";
+    form.pageAccessToken = pageToken.value;
+  } else if (servesMeta) {
+    issues.push(
+      "Could not read the Page access token from Send Messenger Reply; keeping the current token."
+    );
+  }
+
+  const whatsappNode = findNode("Send WhatsApp Reply");
+  const whatsappToken = readToken(whatsappNode);
+  if (typeof whatsappToken.credential === "string") {
+    form.secretStorage = "credentials";
+    form.whatsappTokenCredential = whatsappToken.credential;
+  } else if (typeof whatsappToken.value === "string") {
+    form.secretStorage = "inline";
+    form.whatsappAccessToken = whatsappToken.value;
+  } else if (whatsappNode) {
+    issues.push(
+      "Could not read the access token from Send WhatsApp Reply; keeping the current token."
+    );
+  }
+
+  return { form, keywordRoutes, issues };
+}
+
+function describeRouteMatching(route: KeywordRoute) {
+  const options = [
+    MATCH_MODE_LABELS[route.matchMode],
+    `priority ${route.priority}`,
+    ...(route.action === "reply" ? [] : [route.action]),
+    ...(route.awaiting ? [`awaits ${route.awaiting}`] : [])
+  ];
+  return `${route.phrases.join(" | ")} (${options.join(", ")})`;
+}
+
+function describeReply(route: KeywordRoute) {
+  const reply = route.richReply
+    ? `${route.reply} + ${RICH_REPLY_LABELS[route.richReply.type].toLowerCase()}`
+    : route.reply;
+  return [
+    reply,
+    ...Object.entries(route.translations ?? {}).map(
+      ([locale, translation]) => `${locale}: ${translation.reply}`
+    )
+  ].join(" / ");
+}
+
+function formatSettingValue(field: keyof FormState, value: unknown) {
+  if (SECRET_FIELDS.includes(field)) {
+    return value ? "set (hidden)" : "empty";
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  if (field === "n8nTarget") {
+    return (
+      N8N_TARGETS.find((target) => target.value === value)?.label ?? String(value)
+    );
+  }
+  if (field === "flows") {
+    const flows = value as ConversationFlows;
+    return `${flows.steps.map((step) => step.id).join(", ") || "no steps"} (${flows.timeoutMinutes} min timeout)`;
+  }
+  if (field === "localization") {
+    const localization = value as Localization;
+    if (!localization.enabled) {
+      return "off";
+    }
+    const detection =
+      LOCALE_DETECTIONS.find(
+        (choice) => choice.value === localization.detection
+      )?.label ?? localization.detection;
+    return `${localization.locales.join(", ")} (default ${localization.defaultLocale}; ${detection.toLowerCase()})`;
+  }
+  if (field === "errorHandling") {
+    const errorHandling = value as ErrorHandling;
+    const alert =
+      ALERT_TARGETS.find((target) => target.value === errorHandling.alert)
+        ?.label ?? errorHandling.alert;
+    return `${errorHandling.maxAttempts} attempt(s), ${errorHandling.retryDelaySeconds}s backoff, ${alert.toLowerCase()}`;
+  }
+  if (field === "logging") {
+    const logging = value as ConversationLog;
+    return (
+      LOG_SINK_CHOICES.find((choice) => choice.value === logging.sink)?.label ??
+      logging.sink
+    );
+  }
+  if (field === "aiFallback") {
+    const aiFallback = value as AiFallback;
+    return aiFallback.enabled
+      ? `${aiFallback.model} at ${aiFallback.endpoint} (${aiFallback.timeoutSeconds}s)`
+      : "off";
+  }
+  if (field === "lookup") {
+    const lookup = value as OrderLookup;
+    return lookup.endpoint
+      ? `GET ${lookup.endpoint} (${lookup.timeoutSeconds}s)`
+      : "off";
+  }
+  if (field === "schedule") {
+    const schedule = value as BusinessSchedule;
+    if (!schedule.enabled) {
+      return "off";
+    }
+    const openDays = WEEKDAYS.filter(
+      (weekday) => schedule.days[weekday.value].open
+    ).map(({ value: weekday, label }) => {
+      const hours = schedule.days[weekday];
+      return `${label.slice(0, 3)} ${hours.from}-${hours.to}`;
+    });
+    return openDays.length ? openDays.join(", ") : "closed every day";
+  }
+  return String(value ?? "");
+}
+
+// Compares what an earlier export contained (read back through the importer)
+// with the current builder state, keyed the same way rich replies are.
+function diffWorkflowConfig(
+  previous: WorkflowImport,
+  form: FormState,
+  routes: KeywordRoute[]
+): WorkflowChange[] {
+  const changes: WorkflowChange[] = [];
+  const addChange = (change: WorkflowChange) =>
+    changes.push(
+      change.before !== undefined && change.before === change.after
+        ? { ...change, before: undefined, after: undefined }
+        : change
+    );
+
+  if (previous.keywordRoutes) {
+    const before = new Map(
+      previous.keywordRoutes.map((route) => [getRouteKey(route), route])
+    );
+    const after = new Map(routes.map((route) => [getRouteKey(route), route]));
+    after.forEach((route, key) => {
+      const old = before.get(key);
+      if (!old) {
+        addChange({
+          section: "routes",
+          kind: "added",
+          label: key,
+          after: describeRouteMatching(route)
+        });
+        return;
+      }
+      if (describeRouteMatching(old) !== describeRouteMatching(route)) {
+        addChange({
+          section: "routes",
+          kind: "changed",
+          label: key,
+          before: describeRouteMatching(old),
+          after: describeRouteMatching(route)
+        });
+      }
+      if (
+        JSON.stringify([
+          old.reply,
+          old.richReply ?? null,
+          old.translations ?? null
+        ]) !==
+        JSON.stringify([
+          route.reply,
+          route.richReply ?? null,
+          route.translations ?? null
+        ])
+      ) {
+        addChange({
+          section: "replies",
+          kind: "changed",
+          label: key,
+          before: describeReply(old),
+          after: describeReply(route)
+        });
+      }
+    });
+    before.forEach((route, key) => {
+      if (!after.has(key)) {
+        addChange({
+          section: "routes",
+          kind: "removed",
+          label: key,
+          before: describeRouteMatching(route)
+        });
+      }
+    });
+  }
+
+  (Object.keys(previous.form) as (keyof FormState)[]).forEach((field) => {
+    const before = previous.form[field];
+    if (JSON.stringify(before) === JSON.stringify(form[field])) {
+      return;
+    }
+    addChange({
+      section: field === "defaultReply" ? "replies" : "settings",
+      kind: "changed",
+      label: SETTING_LABELS[field],
+      before: formatSettingValue(field, before),
+      after: formatSettingValue(field, form[field])
+    });
+  });
+
+  return changes;
+}
+
+function applyWorkflowImport(
+  data: ProjectData,
+  result: WorkflowImport
+): ProjectData {
+  return {
+    form: { ...data.form, ...result.form },
+    keywordInput: result.keywordRoutes
+      ? formatKeywordInput(result.keywordRoutes)
+      : data.keywordInput,
+    richReplies: result.keywordRoutes
+      ? Object.fromEntries(
+          result.keywordRoutes.flatMap((route) =>
+            route.richReply ? [[getRouteKey(route), route.richReply]] : []
+          )
+        )
+      : data.richReplies
+  };
+}
+
+function encodeConfigFragment(config: BuilderConfig) {
+  const bytes = new TextEncoder().encode(JSON.stringify(config));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  const encoded = btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${CONFIG_FRAGMENT_KEY}=${encoded}`;
+}
+
+function decodeConfigFragment(hash: string): string | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(
+    CONFIG_FRAGMENT_KEY
+  );
+  if (!encoded) {
+    return null;
+  }
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+  } catch {
+    return null;
+  }
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// RFC 4180 style: quoted fields may contain commas, newlines and "" escapes.
+function parseCsv(source: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+// Header names are compared loosely so "Matched Phrase" or "matchedPhrase"
+// exports from a sheet or database client are read like "matched_phrase".
+function normalizeLogHeader(value: string) {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function normalizeLoggedMessage(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?,;:]+$/, "")
+    .trim();
+}
+
+function analyzeConversationLog(
+  source: string,
+  keywordRoutes: KeywordRoute[]
+): LogAnalytics | string {
+  const [header, ...rows] = parseCsv(source.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return "The file is empty.";
+  }
+  const columns = header.map(normalizeLogHeader);
+  const messageColumn = columns.indexOf("message");
+  const phraseColumn = columns.indexOf("matchedphrase");
+  // Logs written before flow steps were logged have no such column.
+  const flowStepColumn = columns.indexOf("flowstep");
+  if (messageColumn < 0 || phraseColumn < 0) {
+    return "Expected a header row with at least message and matched_phrase columns.";
+  }
+
+  const routeHits = new Map<string, number>();
+  const unmatched = new Map<string, number>();
+  let total = 0;
+  let fallbacks = 0;
+  let flowAnswers = 0;
+  rows.forEach((row) => {
+    const message = row[messageColumn]?.trim() ?? "";
+    const phrase = row[phraseColumn]?.trim() ?? "";
+    if (!message && !phrase) {
+      return;
+    }
+    total += 1;
+    // Answers to a flow question match no phrase but did not fall back.
+    if (flowStepColumn >= 0 && row[flowStepColumn]?.trim()) {
+      flowAnswers += 1;
+      return;
+    }
+    if (!phrase) {
+      fallbacks += 1;
+      const text = normalizeLoggedMessage(message);
+      if (text) {
+        unmatched.set(text, (unmatched.get(text) ?? 0) + 1);
+      }
+      return;
+    }
+    // Hits are grouped per route, so synonyms add up to one line.
+    const route = keywordRoutes.find((candidate) =>
+      candidate.phrases.some(
+        (routePhrase) => routePhrase.toLowerCase() === phrase.toLowerCase()
+      )
+    );
+    const label = route ? route.phrases.join(" / ") : phrase;
+    routeHits.set(label, (routeHits.get(label) ?? 0) + 1);
+  });
+
+  const byCount = <T extends { count: number }>(a: T, b: T) => b.count - a.count;
+  return {
+    total,
+    fallbacks,
+    flowAnswers,
+    routeHits: Array.from(routeHits, ([label, count]) => ({ label, count })).sort(
+      byCount
+    ),
+    unmatched: Array.from(unmatched, ([text, count]) => ({ text, count }))
+      .sort(byCount)
+      .slice(0, 15)
+  };
+}
+
+function createProject(name: string, data: ProjectData): BuilderProject {
+  const id = crypto.randomUUID();
+  return {
+    ...data,
+    id,
+    name,
+    updatedAt: new Date().toISOString(),
+    identity: createWorkflowIdentity(id)
+  };
+}
+
+// Rendered before the saved projects are read. Its values are fixed so the
+// prerendered markup matches the first client render; the restore effect
+// replaces it with a real project.
+const PLACEHOLDER_PROJECT: BuilderProject = {
+  ...DEFAULT_PROJECT_DATA,
+  id: "placeholder",
+  name: DEFAULT_FORM.automationName,
+  updatedAt: new Date(0).toISOString(),
+  identity: { seed: "placeholder", createdAt: new Date(0).toISOString() }
+};
+
+function isSameProjectData(a: ProjectData, b: ProjectData) {
+  return (
+    JSON.stringify([a.form, a.keywordInput, a.richReplies]) ===
+    JSON.stringify([b.form, b.keywordInput, b.richReplies])
+  );
+}
+
+// Exports saved before secrets were masked may hold tokens, so they are
+// dropped rather than kept in storage.
+function restoreWorkflowExport(value: unknown): WorkflowExport | undefined {
+  const saved = value as Partial<WorkflowExport> | undefined;
+  return typeof saved?.exportedAt === "string" &&
+    typeof saved.workflowJson === "string" &&
+    saved.secretsMasked === true
+    ? {
+        exportedAt: saved.exportedAt,
+        workflowJson: saved.workflowJson,
+        secretsMasked: true
+      }
+    : undefined;
+}
+
+function omitSecrets(form: Partial<FormState>): Partial<FormState> {
+  return Object.fromEntries(
+    Object.entries(form).filter(
+      ([field]) => !SECRET_FIELDS.includes(field as keyof FormState)
+    )
+  );
+}
+
+function maskSecrets(form: FormState): FormState {
+  return {
+    ...form,
+    ...Object.fromEntries(
+      SECRET_FIELDS.filter((field) => String(form[field]).trim()).map(
+        (field) => [field, MASKED_SECRET]
+      )
+    )
+  };
+}
+
+// Saved projects may predate newer settings, so fill every gap from the
+// defaults instead of trusting the stored shape.
+function restoreProject(value: unknown): BuilderProject | null {
+  const project = value as Partial<Record<keyof BuilderProject, unknown>>;
+  if (
+    typeof project?.id !== "string" ||
+    typeof project.keywordInput !== "string"
+  ) {
+    return null;
+  }
+  const form = (project.form ?? {}) as Partial<FormState>;
+  const richReplies = Object.entries(
+    (project.richReplies ?? {}) as Record<string, unknown>
+  ).flatMap(([key, reply]) => {
+    const normalized = normalizeRichReply(reply);
+    return normalized ? [[key, normalized] as const] : [];
+  });
+  return {
+    id: project.id,
+    name: typeof project.name === "string" ? project.name : "",
+    updatedAt:
+      typeof project.updatedAt === "string"
+        ? project.updatedAt
+        : new Date().toISOString(),
+    form: {
+      ...DEFAULT_FORM,
+      ...form,
+      schedule: mergeSchedule(form.schedule),
+      aiFallback: { ...DEFAULT_AI_FALLBACK, ...form.aiFallback },
+      logging: { ...DEFAULT_LOGGING, ...form.logging },
+      errorHandling: { ...DEFAULT_ERROR_HANDLING, ...form.errorHandling },
+      localization: { ...DEFAULT_LOCALIZATION, ...form.localization },
+      flows: { ...DEFAULT_FLOWS, ...form.flows },
+      lookup: { ...DEFAULT_LOOKUP, ...form.lookup }
+    },
+    keywordInput: project.keywordInput,
+    richReplies: Object.fromEntries(richReplies),
+    identity: restoreWorkflowIdentity(project.identity, project.id),
+    lastExport: restoreWorkflowExport(project.lastExport),
+    deployedWorkflowId:
+      typeof project.deployedWorkflowId === "string"
+        ? project.deployedWorkflowId
+        : undefined
+  };
+}
+
+function loadProjectStore(): ProjectStore | null {
+  try {
+    const store = safeJsonParse(
+      window.localStorage.getItem(PROJECT_STORAGE_KEY) ?? ""
+    ) as Partial<Record<keyof ProjectStore, unknown>> | undefined;
+    const projects = Array.isArray(store?.projects)
+      ? store.projects.flatMap((project) => restoreProject(project) ?? [])
+      : [];
+    if (!projects.length) {
+      return null;
+    }
+    return {
+      activeProjectId:
+        typeof store?.activeProjectId === "string"
+          ? store.activeProjectId
+          : projects[0].id,
+      projects
+    };
+  } catch (error) {
+    console.error("Loading saved projects failed", error);
+    return null;
+  }
+}
+
+// Secrets stay in memory, like the deploy API key; saved bots restore with
+// the defaults in their place.
+function saveProjectStore(store: ProjectStore) {
+  try {
+    window.localStorage.setItem(
+      PROJECT_STORAGE_KEY,
+      JSON.stringify({
+        ...store,
+        projects: store.projects.map((project) => ({
+          ...project,
+          form: omitSecrets(project.form)
+        }))
+      })
+    );
+  } catch (error) {
+    console.error("Saving projects failed", error);
+  }
+}
+
+function formatTimestamp(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "unknown" : date.toLocaleString();
+}
+
+function getSimulatorSample(
+  mode: SimulatorMode,
+  form: FormState,
+  channel: Channel
+) {
+  switch (mode) {
+    case "webhook":
+      return JSON.stringify(
+        buildChannelEvent(channel, "Where is my order?", "Can I talk to a human?"),
+        null,
+        2
+      );
+    case "verification":
+      return `hub.mode=subscribe&hub.verify_token=${encodeURIComponent(
+        form.verifyToken.trim()
+      )}&hub.challenge=1158201444`;
+    default:
+      return "Where is my order?";
+  }
+}
+
+function buildChannelEvent(channel: Channel, ...texts: string[]) {
+  const timestamp = Date.now();
+  if (channel === "whatsapp") {
+    return {
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "WHATSAPP_BUSINESS_ACCOUNT_ID",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: {
+                  display_phone_number: "15550000000",
+                  phone_number_id: "PHONE_NUMBER_ID"
+                },
+                messages: texts.map((text, index) => ({
+                  from: `1555000000${index + 1}`,
+                  id: `wamid.simulated_${index + 1}`,
+                  timestamp: String(Math.floor(timestamp / 1000)),
+                  type: "text",
+                  text: { body: text }
+                }))
+              }
+            }
+          ]
+        }
+      ]
+    };
+  }
+  const accountId = channel === "instagram" ? "INSTAGRAM_ACCOUNT_ID" : "PAGE_ID";
+  return {
+    object: CHANNELS.find((choice) => choice.value === channel)?.webhookObject,
+    entry: texts.map((text, index) => ({
+      id: accountId,
+      time: timestamp,
+      messaging: [
+        {
+          sender: { id: `SIMULATED_USER_${index + 1}` },
+          recipient: { id: accountId },
+          timestamp,
+          message: { mid: `m_simulated_${index + 1}`, text }
+        }
+      ]
+    }))
+  };
+}
+
+// A Date whose no-argument constructor returns a fixed instant, so the
+// simulator can check business hours at any time of day.
+function createSimulatedClock(at: number): DateConstructor {
+  return class extends Date {
+    constructor(...args: unknown[]) {
+      if (args.length) {
+        super(...(args as [string]));
+      } else {
+        super(at);
+      }
+    }
+  } as DateConstructor;
+}
+
+// Runs the exact Normalize Event code embedded in the workflow, feeding it
+// the same { query, body } shape the n8n webhook node produces.
+function simulateNormalizeEvent(
+  functionCode: string,
+  mode: SimulatorMode,
+  input: string,
+  env: Record<string, string> = {},
+  simulatedAt?: number,
+  channel: Channel = "messenger",
+  staticData: Record<string, unknown> = {}
+): SimulationResult {
+  let webhookItem: { query: Record<string, string>; body: unknown };
+  if (mode === "verification") {
+    webhookItem = {
+      query: Object.fromEntries(
+        new URLSearchParams(input.trim().replace(/^\?/, ""))
+      ),
+      body: {}
+    };
+  } else if (mode === "webhook") {
+    const body = safeJsonParse(input);
+    if (!body || typeof body !== "object") {
+      return { ok: false, error: "The webhook body is not valid JSON." };
+    }
+    webhookItem = { query: {}, body };
+  } else {
+    webhookItem = { query: {}, body: buildChannelEvent(channel, input) };
+  }
+
+  try {
+    const run = new Function(
+      "items",
+      "$env",
+      "$getWorkflowStaticData",
+      "Date",
+      functionCode
+    ) as (
+      items: unknown[],
+      $env: Record<string, string>,
+      $getWorkflowStaticData: (type: string) => Record<string, unknown>,
+      clock: DateConstructor
+    ) => { json: SimulatedItem }[];
+    // The run mutates static data like n8n does, so events later in the
+    // same batch see pauses and sessions set by earlier ones.
+    const output = run(
+      [{ json: webhookItem }],
+      env,
+      () => staticData,
+      simulatedAt === undefined ? Date : createSimulatedClock(simulatedAt)
+    );
+    return { ok: true, items: output.map((item) => item.json), staticData };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+// Runs the embedded Use Lookup Reply code against a response fetched by the
+// builder, so a local mock server can stand in for the order API.
+function runLookupReply(
+  item: SimulatedItem,
+  response: { body?: unknown; statusCode?: number; error?: string }
+): string {
+  const run = new Function("items", "$items", buildLookupReplyCode()) as (
+    items: unknown[],
+    $items: (node: string, output: number) => unknown[]
+  ) => { json: SimulatedItem }[];
+  const [result] = run([{ json: response }], () => [{ json: item }]);
+  return result?.json.replyText ?? "";
+}
+
+// Resolves the Graph API requests an item triggers from the generated
+// workflow itself, so the preview shows exactly what n8n would send.
+function previewSendRequests(
+  workflowJson: string,
+  item: SimulatedItem
+): SendRequestPreview[] {
+  if (item.isVerification || !item.shouldReply) {
+    return [];
+  }
+  const workflow = safeJsonParse(workflowJson) as
+    | { nodes?: WorkflowNode[] }
+    | undefined;
+  const nodeNames = [
+    item.channel === "whatsapp" ? "Send WhatsApp Reply" : "Send Messenger Reply",
+    ...(item.handover ? ["Pass Thread Control"] : [])
+  ];
+  const json = item as unknown as Record<string, unknown>;
+  return nodeNames.flatMap((name) => {
+    const node = workflow?.nodes?.find((candidate) => candidate.name === name);
+    if (!node) {
+      return [];
+    }
+    const problems: string[] = [];
+    const resolve = (value: unknown) => {
+      try {
+        return typeof value === "string" ? evaluateExpression(value, json) : value;
+      } catch (error) {
+        problems.push(
+          `Expression failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return undefined;
+      }
+    };
+    const url = String(resolve(node.parameters?.url) ?? "");
+    const rawBody = resolve(
+      node.parameters?.bodyParametersJson ?? node.parameters?.jsonBody
+    );
+    let body = rawBody;
+    if (typeof rawBody === "string") {
+      body = safeJsonParse(rawBody);
+      if (body === undefined) {
+        problems.push("The body is not valid JSON.");
+        body = rawBody;
+      }
+    }
+    const sent = (body ?? {}) as {
+      recipient?: { id?: unknown };
+      to?: unknown;
+    };
+    if ((sent.recipient?.id ?? sent.to) !== item.senderId) {
+      problems.push("The recipient is not the sender of the message.");
+    }
+    if (/=\{\{/.test(url) || /=\{\{/.test(JSON.stringify(body))) {
+      problems.push("An expression was sent literally instead of being evaluated.");
+    }
+    return [{ node: name, url, body, problems }];
+  });
+}
+
+function describeBranches(
+  item: SimulatedItem,
+  form: FormState,
+  keywordRoutes: KeywordRoute[]
+): string[] {
+  // The verification GET skips the signature check, which only POSTs pass.
+  if (item.isVerification) {
+    return ["Route Verification → true → Respond Verification"];
+  }
+  const signature = isSignatureCheckEnabled(form)
+    ? ["Verify Signature → Signature Valid? → true → Normalize Event"]
+    : [];
+  const sendsToMessenger = form.channels.some(
+    (channel) => channel !== "whatsapp"
+  );
+  const splitsChannels = sendsToMessenger && form.channels.includes("whatsapp");
+  const isWhatsApp = item.channel === "whatsapp";
+  const sendPath = [
+    ...(usesLookup(form, keywordRoutes)
+      ? item.needsLookup
+        ? ["Needs Lookup? → true → Look Up Order → Use Lookup Reply → Merge Lookups"]
+        : ["Needs Lookup? → false → Merge Lookups"]
+      : []),
+    ...(isAiFallbackEnabled(form)
+      ? item.needsAi
+        ? ["Needs AI Reply? → true → Ask AI → Use AI Reply → Merge AI Replies"]
+        : ["Needs AI Reply? → false → Merge AI Replies"]
+      : []),
+    ...(splitsChannels ? [`WhatsApp Reply? → ${isWhatsApp}`] : []),
+    isWhatsApp
+      ? "Send WhatsApp Reply → WhatsApp Send Result"
+      : "Send Messenger Reply → Messenger Send Result",
+    ...(splitsChannels ? ["Merge Channels"] : []),
+    "Check Send Results → Retry Send? (on retryable errors: Back Off, send again)"
+  ];
+  return [
+    ...signature,
+    "Route Verification → false → Respond OK",
+    `Respond OK → ${[
+      "Should Reply?",
+      ...(sendsToMessenger ? ["Needs Handover?"] : []),
+      ...(looksUpProfileLocale(form) ? ["Needs Locale?"] : [])
+    ].join(", ")}`,
+    item.shouldReply
+      ? `Should Reply? → true → ${sendPath.join(" → ")}`
+      : "Should Reply? → false",
+    ...(sendsToMessenger
+      ? [
+          item.handover
+            ? `Needs Handover? → true → Pass Thread Control (app ${item.handoverTargetAppId})`
+            : "Needs Handover? → false"
+        ]
+      : []),
+    ...(looksUpProfileLocale(form)
+      ? [
+          item.needsLocale
+            ? "Needs Locale? → true → Look Up Locale → Remember Locale"
+            : "Needs Locale? → false"
+        ]
+      : [])
+  ];
+}
+
+function replaceAt<T>(list: T[], index: number, item: T) {
+  return list.map((current, position) => (position === index ? item : current));
+}
+
+function removeAt<T>(list: T[], index: number) {
+  return list.filter((_, position) => position !== index);
+}
+
+function ButtonListEditor({
+  buttons,
+  onChange
+}: {
+  buttons: ReplyButton[];
+  onChange: (buttons: ReplyButton[]) => void;
+}) {
+  return (
+    <div className="rich-list">
+      {buttons.map((button, index) => (
+        <div className="rich-row" key={index}>
+          <select
+            aria-label="Button type"
+            value={button.type}
+            onChange={(event) =>
+              onChange(
+                replaceAt(buttons, index, {
+                  ...button,
+                  type: event.target.value as ReplyButton["type"]
+                })
+              )
+            }
+          >
+            <option value="postback">Postback</option>
+            <option value="web_url">Open URL</option>
+          </select>
+          <input
+            aria-label="Button title"
+            value={button.title}
+            maxLength={MAX_BUTTON_TITLE}
+            onChange={(event) =>
+              onChange(
+                replaceAt(buttons, index, { ...button, title: event.target.value })
+              )
+            }
+            placeholder="Button title"
+          />
+          <input
+            aria-label={button.type === "web_url" ? "Button URL" : "Button payload"}
+            value={button.value}
+            onChange={(event) =>
+              onChange(
+                replaceAt(buttons, index, { ...button, value: event.target.value })
+              )
+            }
+            placeholder={button.type === "web_url" ? "https://..." : "status"}
+          />
+          <button
+            className="button secondary"
+            type="button"
+            onClick={() => onChange(removeAt(buttons, index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        className="button secondary"
+        type="button"
+        disabled={buttons.length >= MAX_BUTTONS}
+        onClick={() =>
+          onChange([...buttons, { type: "postback", title: "", value: "" }])
+        }
+      >
+        Add button
+      </button>
+    </div>
+  );
+}
+
+function toRouteRows(value: string): RouteRow[] {
+  return parseKeywordInput(value).map(
+    ({ phrases, reply, matchMode, priority, action, awaiting, translations }) => ({
+      phraseText: phrases.join(" | "),
+      reply,
+      matchMode,
+      priority,
+      action,
+      ...(awaiting && { awaiting }),
+      ...(translations && { translations })
+    })
+  );
+}
+
+// Rows keep the raw text being typed; the keyword text is rebuilt from them
+// and lines that could not be parsed are kept at the start, where a stray
+// translation cannot attach itself to a route.
+function formatRouteRows(rows: RouteRow[], problems: KeywordParseProblem[]) {
+  return [
+    ...problems.map((problem) => problem.text),
+    formatKeywordInput(
+      rows.map((row) => ({
+        ...row,
+        phrases: [row.phraseText.trim()],
+        reply: row.reply.trim()
+      }))
+    )
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function RouteTableEditor({
+  value,
+  steps,
+  onChange
+}: {
+  value: string;
+  // Names of the flow steps a route can start.
+  steps: string[];
+  onChange: (value: string) => void;
+}) {
+  const [rows, setRows] = useState(() => toRouteRows(value));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const emitted = useRef(value);
+
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setRows(toRouteRows(value));
+    }
+  }, [value]);
+
+  const commit = (next: RouteRow[]) => {
+    const text = formatRouteRows(next, parseKeywordLines(value).problems);
+    emitted.current = text;
+    setRows(next);
+    onChange(text);
+  };
+
+  const updateRow = (index: number, changes: Partial<RouteRow>) =>
+    commit(replaceAt(rows, index, { ...rows[index], ...changes }));
+
+  const moveRow = (from: number, to: number) => {
+    if (to < 0 || to >= rows.length || from === to) {
+      return;
+    }
+    const next = [...rows];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    commit(next);
+  };
+
+  return (
+    <div className="route-table rich-editor">
+      {rows.map((row, index) => (
+        <div
+          className={`route-row${dragIndex === index ? " dragging" : ""}`}
+          key={index}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragEnd={() => setDragIndex(null)}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            event.preventDefault();
+            if (dragIndex !== null) {
+              moveRow(dragIndex, index);
+            }
+            setDragIndex(null);
+          }}
+        >
+          <div className="route-row-header">
+            <span className="drag-handle" aria-hidden="true">
+              ⠿
+            </span>
+            <strong>Route {index + 1}</strong>
+            <button
+              className="button secondary"
+              type="button"
+              aria-label={`Move route ${index + 1} up`}
+              disabled={index === 0}
+              onClick={() => moveRow(index, index - 1)}
+            >
+              ↑
+            </button>
+            <button
+              className="button secondary"
+              type="button"
+              aria-label={`Move route ${index + 1} down`}
+              disabled={index === rows.length - 1}
+              onClick={() => moveRow(index, index + 1)}
+            >
+              ↓
+            </button>
+            <button
+              className="button secondary"
+              type="button"
+              onClick={() => commit(removeAt(rows, index))}
+            >
+              Remove
+            </button>
+          </div>
+          <input
+            aria-label={`Route ${index + 1} phrases`}
+            className={row.phraseText.trim() ? undefined : "invalid"}
+            value={row.phraseText}
+            onChange={(event) =>
+              updateRow(index, { phraseText: event.target.value })
+            }
+            placeholder={
+              row.matchMode === "regex"
+                ? "^order\\s*#?\\d+"
+                : "status | where is my order"
+            }
+          />
+          <input
+            aria-label={`Route ${index + 1} reply`}
+            className={row.reply.trim() ? undefined : "invalid"}
+            value={row.reply}
+            onChange={(event) => updateRow(index, { reply: event.target.value })}
+            placeholder="Reply text"
+          />
+          <div className="route-row-options">
+            <select
+              aria-label={`Route ${index + 1} match mode`}
+              value={row.matchMode}
+              onChange={(event) =>
+                updateRow(index, { matchMode: event.target.value as MatchMode })
+              }
+            >
+              {Object.entries(MATCH_MODE_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              aria-label={`Route ${index + 1} priority`}
+              type="number"
+              value={row.priority}
+              onChange={(event) =>
+                updateRow(index, {
+                  priority: Math.trunc(Number(event.target.value) || 0)
+                })
+              }
+            />
+            <select
+              aria-label={`Route ${index + 1} action`}
+              value={row.action}
+              onChange={(event) =>
+                updateRow(index, { action: event.target.value as RouteAction })
+              }
+            >
+              <option value="reply">Reply only</option>
+              <option value="handover">Reply, then hand over</option>
+              <option value="lookup">Reply from the order lookup</option>
+            </select>
+            <select
+              aria-label={`Route ${index + 1} next step`}
+              value={row.awaiting ?? ""}
+              onChange={(event) =>
+                updateRow(index, { awaiting: event.target.value || undefined })
+              }
+            >
+              <option value="">No follow-up step</option>
+              {[
+                ...steps,
+                ...(row.awaiting && !steps.includes(row.awaiting)
+                  ? [row.awaiting]
+                  : [])
+              ].map((step) => (
+                <option key={step} value={step}>
+                  Await {step}
+                </option>
+              ))}
+            </select>
+          </div>
+          {row.translations && (
+            <p>
+              Also answers in{" "}
+              {Object.keys(row.translations).join(", ")}; edit translations in
+              the text view.
+            </p>
+          )}
+        </div>
+      ))}
+      <button
+        className="button secondary"
+        type="button"
+        onClick={() =>
+          commit([
+            ...rows,
+            {
+              phraseText: "",
+              reply: "",
+              matchMode: "contains",
+              priority: 0,
+              action: "reply"
+            }
+          ])
+        }
+      >
+        Add route
+      </button>
+    </div>
+  );
+}
+
+export default function Page() {
+  const [projects, setProjects] = useState<BuilderProject[]>([
+    PLACEHOLDER_PROJECT
+  ]);
+  const [activeProjectId, setActiveProjectId] = useState("");
+  const [hasRestoredProjects, setHasRestoredProjects] = useState(false);
+  const activeProject =
+    projects.find((project) => project.id === activeProjectId) ?? projects[0];
+
+  const [form, setForm] = useState<FormState>(DEFAULT_FORM);
+
+  const [keywordInput, setKeywordInput] = useState(DEFAULT_KEYWORD_INPUT);
+  const [copyStatus, setCopyStatus] = useState<"idle" | "success" | "error">(
+    "idle"
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSource, setImportSource] = useState("");
+  const [importReport, setImportReport] = useState<{
+    mappedFields: number;
+    issues: string[];
+  } | null>(null);
+
+  const [richReplies, setRichReplies] = useState<Record<string, RichReply>>(
+    {}
+  );
+  const [richReplyRouteKey, setRichReplyRouteKey] = useState("");
+
+  const [routeEditor, setRouteEditor] = useState<"table" | "text">("table");
+
+  const parsedKeywords = useMemo(
+    () => parseKeywordLines(keywordInput),
+    [keywordInput]
+  );
+
+  const keywordRoutes = useMemo(
+    () => attachRichReplies(parsedKeywords.routes, richReplies),
+    [parsedKeywords, richReplies]
+  );
+
+  const activeRoutes = useMemo(
+    () => keywordRoutes.filter(isRouteComplete),
+    [keywordRoutes]
+  );
+
+  const routeWarnings = useMemo(
+    () => findRouteWarnings(keywordRoutes),
+    [keywordRoutes]
+  );
+
+  const richReplyRoutes = keywordRoutes.filter((route) => route.phrases.length);
+  const richReplyRoute =
+    richReplyRoutes.find(
+      (route) => getRouteKey(route) === richReplyRouteKey
+    ) ?? richReplyRoutes[0];
+  const richReply = richReplyRoute?.richReply;
+
+  const updateRichReply = (next: RichReply | undefined) => {
+    if (!richReplyRoute) {
+      return;
+    }
+    const key = getRouteKey(richReplyRoute);
+    setRichReplies((previous) => {
+      const updated = { ...previous };
+      if (next) {
+        updated[key] = next;
+      } else {
+        delete updated[key];
+      }
+      return updated;
+    });
+  };
+
+  // Rich replies follow a route's first phrase, so carry them over when
+  // that phrase is edited in place.
+  const handleKeywordInputChange = (value: string) => {
+    const previousKeys = keywordRoutes.map(getRouteKey);
+    const nextKeys = parseKeywordInput(value).map(getRouteKey);
+    if (previousKeys.length === nextKeys.length) {
+      setRichReplies((previous) => {
+        const updated = { ...previous };
+        previousKeys.forEach((key, index) => {
+          const nextKey = nextKeys[index];
+          if (
+            key !== nextKey &&
+            previous[key] &&
+            !nextKeys.includes(key) &&
+            !updated[nextKey]
+          ) {
+            updated[nextKey] = previous[key];
+            delete updated[key];
+          }
+        });
+        return updated;
+      });
+    }
+    setKeywordInput(value);
+  };
+
+  const invalidPatterns = useMemo(
+    () => findInvalidPatterns(keywordRoutes),
+    [keywordRoutes]
+  );
+
+  const flowProblems = useMemo(
+    () => findFlowProblems(form.flows, keywordRoutes),
+    [form.flows, keywordRoutes]
+  );
+
+  const workflowJson = useMemo(
+    () =>
+      generateWorkflowJson(form, activeRoutes, activeProject.identity),
+    [form, activeRoutes, activeProject.identity]
+  );
+
+  const lintFindings = useMemo(
+    () => lintWorkflow(form, activeRoutes, workflowJson),
+    [form, activeRoutes, workflowJson]
+  );
+  const lintErrorCount = lintFindings.filter(
+    (finding) => finding.severity === "error"
+  ).length;
+  const [blockExportOnErrors, setBlockExportOnErrors] = useState(false);
+  const exportBlocked = blockExportOnErrors && lintErrorCount > 0;
+
+  const [compareFile, setCompareFile] = useState<{
+    name: string;
+    workflowJson: string;
+  } | null>(null);
+  const compareBaseline =
+    compareFile?.workflowJson ?? activeProject.lastExport?.workflowJson;
+
+  const compareImport = useMemo(() => {
+    if (compareBaseline === undefined) {
+      return null;
+    }
+    const result = importWorkflowJson(compareBaseline);
+    // The last export has its secrets masked, so they cannot be compared.
+    return compareFile ? result : { ...result, form: omitSecrets(result.form) };
+  }, [compareBaseline, compareFile]);
+
+  const workflowChanges = useMemo(
+    () =>
+      compareImport?.keywordRoutes
+        ? diffWorkflowConfig(compareImport, form, activeRoutes)
+        : null,
+    [compareImport, form, activeRoutes]
+  );
+
+  const [simulatorMode, setSimulatorMode] = useState<SimulatorMode>("message");
+  const [simulatorChannel, setSimulatorChannel] = useState<Channel>("messenger");
+  const activeSimulatorChannel = form.channels.includes(simulatorChannel)
+    ? simulatorChannel
+    : form.channels[0];
+  const [simulatorInput, setSimulatorInput] = useState("Where is my order?");
+  const [simulatedTime, setSimulatedTime] = useState("");
+  // Static data carried over from earlier simulated messages, so multi-step
+  // flows can be walked through one answer at a time.
+  const [simulatorState, setSimulatorState] = useState<Record<string, unknown>>(
+    {}
+  );
+
+  const simulation = useMemo(
+    () =>
+      simulateNormalizeEvent(
+        buildNormalizeEventCode(form, activeRoutes),
+        simulatorMode,
+        simulatorInput,
+        {
+          [sanitizeEnvName(form.verifyTokenEnv) || DEFAULT_VERIFY_TOKEN_ENV]:
+            form.verifyToken.trim()
+        },
+        simulatedTime ? new Date(simulatedTime).getTime() : undefined,
+        activeSimulatorChannel,
+        structuredClone(simulatorState)
+      ),
+    [
+      form,
+      activeRoutes,
+      simulatorMode,
+      simulatorInput,
+      simulatedTime,
+      activeSimulatorChannel,
+      simulatorState
+    ]
+  );
+  const [lookupTest, setLookupTest] = useState<{
+    url: string;
+    detail: string;
+    reply?: string;
+  } | null>(null);
+
+  // n8n's HTTP node fails on error statuses, which Look Up Order turns into
+  // an error item, so the test does the same.
+  const handleTestLookup = async (item: SimulatedItem) => {
+    const url = item.lookupUrl ?? "";
+    const authHeader = form.lookup.authHeader.trim();
+    const authValue = form.lookupAuthValue.trim();
+    setLookupTest({ url, detail: "" });
+    try {
+      const response = await fetch(url, {
+        headers: authHeader && authValue ? { [authHeader]: authValue } : {},
+        signal: AbortSignal.timeout(Math.max(1, form.lookup.timeoutSeconds) * 1000)
+      });
+      const text = await response.text();
+      setLookupTest({
+        url,
+        detail: `HTTP ${response.status}`,
+        reply: runLookupReply(
+          item,
+          response.ok
+            ? { body: safeJsonParse(text) ?? text, statusCode: response.status }
+            : { error: `HTTP ${response.status}` }
+        )
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setLookupTest({
+        url,
+        detail: `Request failed (${message}); a local mock server must allow CORS from this page`,
+        reply: runLookupReply(item, { error: message })
+      });
+    }
+  };
+
+  const simulatedSessions = Object.entries(
+    ((simulation.ok && simulation.staticData.sessions) || {}) as Record<
+      string,
+      { step: string | null; variables: Record<string, string> }
+    >
+  );
+
+  const holidayInput = useMemo(
+    () => parseHolidayInput(form.schedule.holidays),
+    [form.schedule.holidays]
+  );
+
+  const updateSchedule = (changes: Partial<BusinessSchedule>) =>
+    setForm((previous) => ({
+      ...previous,
+      schedule: { ...previous.schedule, ...changes }
+    }));
+
+  const updateAiFallback = (changes: Partial<AiFallback>) =>
+    setForm((previous) => ({
+      ...previous,
+      aiFallback: { ...previous.aiFallback, ...changes }
+    }));
+
+  const updateLogging = (changes: Partial<ConversationLog>) =>
+    setForm((previous) => ({
+      ...previous,
+      logging: { ...previous.logging, ...changes }
+    }));
+
+  const updateErrorHandling = (changes: Partial<ErrorHandling>) =>
+    setForm((previous) => ({
+      ...previous,
+      errorHandling: { ...previous.errorHandling, ...changes }
+    }));
+
+  const updateLookup = (changes: Partial<OrderLookup>) =>
+    setForm((previous) => ({
+      ...previous,
+      lookup: { ...previous.lookup, ...changes }
+    }));
+
+  const updateFlows = (changes: Partial<ConversationFlows>) =>
+    setForm((previous) => ({
+      ...previous,
+      flows: { ...previous.flows, ...changes }
+    }));
+
+  // Renaming a step keeps the steps that continue to it pointing at it.
+  const updateFlowStep = (index: number, changes: Partial<FlowStep>) =>
+    setForm((previous) => {
+      const current = previous.flows.steps[index];
+      const steps = replaceAt(previous.flows.steps, index, {
+        ...current,
+        ...changes
+      }).map((step) =>
+        changes.id !== undefined && current.id && step.next === current.id
+          ? { ...step, next: changes.id }
+          : step
+      );
+      return { ...previous, flows: { ...previous.flows, steps } };
+    });
+
+  const updateLocalization = (changes: Partial<Localization>) =>
+    setForm((previous) => ({
+      ...previous,
+      localization: { ...previous.localization, ...changes }
+    }));
+
+  const [logFile, setLogFile] = useState<{ name: string; csv: string } | null>(
+    null
+  );
+  const logAnalytics = useMemo(
+    () => (logFile ? analyzeConversationLog(logFile.csv, keywordRoutes) : null),
+    [logFile, keywordRoutes]
+  );
+
+  const handleLogFile = async (file: File | undefined) => {
+    if (file) {
+      setLogFile({ name: file.name, csv: await file.text() });
+    }
+  };
+
+  // Suggested routes start with an empty reply, which the route warnings
+  // flag until someone writes one.
+  const handleSuggestRoute = (text: string) => {
+    const phrase = text.replace(/\||=>/g, " ").replace(/^\[/, "").trim();
+    handleKeywordInputChange(`${keywordInput.trimEnd()}\n${phrase} => `);
+  };
+
+  const updateDay = (weekday: Weekday, changes: Partial<DayHours>) =>
+    setForm((previous) => ({
+      ...previous,
+      schedule: {
+        ...previous.schedule,
+        days: {
+          ...previous.schedule.days,
+          [weekday]: { ...previous.schedule.days[weekday], ...changes }
+        }
+      }
+    }));
+
+  const recordExport = () =>
+    setProjects((previous) =>
+      previous.map((project) =>
+        project.id === activeProject.id
+          ? {
+              ...project,
+              lastExport: {
+                exportedAt: new Date().toISOString(),
+                workflowJson: generateWorkflowJson(
+                  maskSecrets(form),
+                  activeRoutes,
+                  activeProject.identity
+                ),
+                secretsMasked: true
+              }
+            }
+          : project
+      )
+    );
+
+  const handleCompareFile = async (file: File | undefined) => {
+    if (file) {
+      setCompareFile({ name: file.name, workflowJson: await file.text() });
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(workflowJson);
+      recordExport();
+      setCopyStatus("success");
+      setTimeout(() => setCopyStatus("idle"), 2600);
+    } catch (error) {
+      console.error("Copy failed", error);
+      setCopyStatus("error");
+      setTimeout(() => setCopyStatus("idle"), 2600);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(
+      `${sanitizeWebhookPath(form.automationName) || "workflow"}.json`,
+      workflowJson,
+      "application/json"
+    );
+    recordExport();
+  };
+
+  const [deployTarget, setDeployTarget] = useState({
+    baseUrl: "",
+    apiKey: "",
+    activate: false
+  });
+  const [deployResult, setDeployResult] = useState<
+    DeployResult | "deploying" | null
+  >(null);
+
+  const setDeployedWorkflowId = (projectId: string, workflowId: string) =>
+    setProjects((previous) =>
+      previous.map((project) =>
+        project.id === projectId
+          ? { ...project, deployedWorkflowId: workflowId }
+          : project
+      )
+    );
+
+  // The API key goes to this app's own server route and is never saved.
+  const handleDeploy = async () => {
+    setDeployResult("deploying");
+    try {
+      const response = await fetch("/api/deploy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...deployTarget,
+          workflowId: activeProject.deployedWorkflowId,
+          workflowJson
+        })
+      });
+      const result = (await response.json()) as DeployResult;
+      setDeployResult(result);
+      if (result.ok) {
+        recordExport();
+        setDeployedWorkflowId(activeProject.id, result.workflowId);
+      }
+    } catch (error) {
+      setDeployResult({
+        ok: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const [shareStatus, setShareStatus] = useState<"idle" | "success" | "error">(
+    "idle"
+  );
+
+  const handleExportConfig = (format: "json" | "yaml") =>
+    downloadFile(
+      `${sanitizeWebhookPath(form.automationName) || "messenger-bot"}.config.${format}`,
+      stringifyBuilderConfig(
+        createBuilderConfig(form, keywordRoutes, activeProject.identity),
+        format
+      ),
+      format === "json" ? "application/json" : "application/yaml"
+    );
+
+  const handleCopyShareLink = async () => {
+    const fragment = encodeConfigFragment(
+      createBuilderConfig(form, keywordRoutes)
+    );
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${window.location.pathname}#${fragment}`
+      );
+      setShareStatus("success");
+    } catch (error) {
+      console.error("Copy failed", error);
+      setShareStatus("error");
+    }
+    setTimeout(() => setShareStatus("idle"), 2600);
+  };
+
+  const reportImport = (result: WorkflowImport, notes: string[] = []) =>
+    setImportReport({
+      mappedFields:
+        Object.keys(result.form).length + (result.keywordRoutes ? 1 : 0),
+      issues: [...notes, ...result.issues]
+    });
+
+  const handleImport = (source: string) => {
+    const result = importBuilderConfig(source) ?? importWorkflowJson(source);
+    const next = applyWorkflowImport({ form, keywordInput, richReplies }, result);
+    setForm(next.form);
+    setKeywordInput(next.keywordInput);
+    setRichReplies(next.richReplies);
+    reportImport(result);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const source = await file.text();
+    setImportSource(source);
+    handleImport(source);
+  };
+
+  const openProject = (project: BuilderProject) => {
+    setActiveProjectId(project.id);
+    setForm(project.form);
+    setKeywordInput(project.keywordInput);
+    setRichReplies(project.richReplies);
+    setRichReplyRouteKey("");
+    setImportReport(null);
+    setCompareFile(null);
+    setDeployResult(null);
+  };
+
+  // A shared link opens as a new bot so it never overwrites saved work.
+  const openSharedConfig = () => {
+    const source = decodeConfigFragment(window.location.hash);
+    if (source === null) {
+      return;
+    }
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${window.location.search}`
+    );
+    const result = importBuilderConfig(source);
+    setIsImporting(true);
+    if (!result?.keywordRoutes) {
+      setImportReport({
+        mappedFields: 0,
+        issues: result?.issues ?? [
+          "The shared link does not contain a builder config."
+        ]
+      });
+      return;
+    }
+    const project = createProject(
+      result.form.automationName || "Shared bot",
+      applyWorkflowImport(DEFAULT_PROJECT_DATA, result)
+    );
+    setProjects((previous) => [...previous, project]);
+    openProject(project);
+    reportImport(result, ["Opened from a shared link as a new saved bot."]);
+  };
+
+  useEffect(() => {
+    const store = loadProjectStore();
+    const restored = store?.projects ?? [
+      createProject(DEFAULT_FORM.automationName, DEFAULT_PROJECT_DATA)
+    ];
+    setProjects(restored);
+    openProject(
+      restored.find((project) => project.id === store?.activeProjectId) ??
+        restored[0]
+    );
+    openSharedConfig();
+    setHasRestoredProjects(true);
+    window.addEventListener("hashchange", openSharedConfig);
+    return () => window.removeEventListener("hashchange", openSharedConfig);
+    // Runs once: later changes flow from the builder into the store.
+  }, []);
+
+  // Opening a project loads the same data it holds, so only real edits move
+  // its last-modified stamp.
+  useEffect(() => {
+    if (!hasRestoredProjects) {
+      return;
+    }
+    const data = { form, keywordInput, richReplies };
+    setProjects((previous) =>
+      previous.map((project) =>
+        project.id !== activeProject.id || isSameProjectData(project, data)
+          ? project
+          : { ...project, ...data, updatedAt: new Date().toISOString() }
+      )
+    );
+  }, [form, keywordInput, richReplies, activeProject.id, hasRestoredProjects]);
+
+  useEffect(() => {
+    if (hasRestoredProjects) {
+      saveProjectStore({ activeProjectId: activeProject.id, projects });
+    }
+  }, [projects, activeProject.id, hasRestoredProjects]);
+
+  const handleNewProject = () => {
+    const project = createProject(
+      `Bot ${projects.length + 1}`,
+      DEFAULT_PROJECT_DATA
+    );
+    setProjects((previous) => [...previous, project]);
+    openProject(project);
+  };
+
+  const handleDuplicateProject = () => {
+    const project = createProject(
+      `${activeProject.name || "Untitled bot"} copy`,
+      { form, keywordInput, richReplies }
+    );
+    setProjects((previous) => [...previous, project]);
+    openProject(project);
+  };
+
+  const handleRenameProject = (name: string) =>
+    setProjects((previous) =>
+      previous.map((project) =>
+        project.id === activeProject.id
+          ? { ...project, name, updatedAt: new Date().toISOString() }
+          : project
+      )
+    );
+
+  const handleDeleteProject = () => {
+    if (
+      !window.confirm(
+        `Delete "${activeProject.name || "Untitled bot"}"? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    const remaining = projects.filter(
+      (project) => project.id !== activeProject.id
+    );
+    const next =
+      remaining[0] ??
+      createProject(DEFAULT_FORM.automationName, DEFAULT_PROJECT_DATA);
+    setProjects(remaining.length ? remaining : [next]);
+    openProject(next);
+  };
+
+  return (
+    <main className="container">
+      <section className="panel">
+        <div className="badge">Messenger · n8n workflow</div>
+        <h1 style={{ fontSize: "2.6rem", margin: "0 0 18px" }}>
+          Launch a Messenger Concierge in minutes
+        </h1>
+        <p style={{ maxWidth: 720, marginBottom: 32 }}>
+          This generator crafts a production-ready n8n workflow that catches
+          Facebook Messenger events, handles webhook verification, triages
+          keywords, and responds instantly while keeping your thread open for
+          human takeover. Customize the responses, copy the JSON, and import into
+          your n8n instance.
+        </p>
+
+        <div className="project-bar">
+          <div className="input-group">
+            <label htmlFor="activeProject">Saved bots</label>
+            <select
+              id="activeProject"
+              value={activeProject.id}
+              onChange={(event) => {
+                const project = projects.find(
+                  (candidate) => candidate.id === event.target.value
+                );
+                if (project) {
+                  openProject(project);
+                }
+              }}
+            >
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name || "Untitled bot"} · edited{" "}
+                  {formatTimestamp(project.updatedAt)}
+                </option>
+              ))}
+            </select>
+            <p>
+              Projects are saved in this browser as you edit. Each keeps its own
+              workflow and node ids so re-exports update the same workflow.
+            </p>
+          </div>
+          <div className="input-group">
+            <label htmlFor="projectName">Bot name</label>
+            <input
+              id="projectName"
+              value={activeProject.name}
+              onChange={(event) => handleRenameProject(event.target.value)}
+              placeholder="Untitled bot"
+            />
+            <p>Last modified {formatTimestamp(activeProject.updatedAt)}</p>
+          </div>
+          <div className="project-actions">
+            <button
+              className="button secondary"
+              type="button"
+              onClick={handleNewProject}
+            >
+              New bot
+            </button>
+            <button
+              className="button secondary"
+              type="button"
+              onClick={handleDuplicateProject}
+            >
+              Duplicate
+            </button>
+            <button
+              className="button secondary"
+              type="button"
+              onClick={handleDeleteProject}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        <div className="actions" style={{ marginTop: 0, marginBottom: 32 }}>
+          <button
+            className="button secondary"
+            type="button"
+            onClick={() => setIsImporting((previous) => !previous)}
+          >
+            {isImporting ? "Close import" : "Import workflow or config"}
+          </button>
+          <button
+            className="button secondary"
+            type="button"
+            onClick={() => handleExportConfig("json")}
+          >
+            Export config (.json)
+          </button>
+          <button
+            className="button secondary"
+            type="button"
+            onClick={() => handleExportConfig("yaml")}
+          >
+            Export config (.yaml)
+          </button>
+          <button
+            className="button secondary"
+            type="button"
+            onClick={handleCopyShareLink}
+          >
+            Copy share link
+          </button>
+          {shareStatus === "success" && (
+            <span className="copy-success">
+              Link copied. Secrets are never included.
+            </span>
+          )}
+          {shareStatus === "error" && (
+            <span className="copy-success">Clipboard blocked.</span>
+          )}
+        </div>
+
+        {isImporting && (
+          <div className="panel" style={{ padding: 28, marginBottom: 32 }}>
+            <h2>Import a workflow or builder config</h2>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="importSource">Workflow JSON or config</label>
+                <textarea
+                  id="importSource"
+                  className="workflow-code"
+                  style={{ minHeight: 160 }}
+                  value={importSource}
+                  onChange={(event) => setImportSource(event.target.value)}
+                  placeholder="Paste a workflow previously generated by this builder, or an exported config"
+                />
+                <p>
+                  The builder reads the Normalize Event node to restore the verify
+                  token, keyword routes and default reply, plus the webhook path,
+                  timezone and Page access token. Exported configs (JSON or YAML)
+                  restore every setting except secrets.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="importFile">Or load a file</label>
+                <input
+                  id="importFile"
+                  type="file"
+                  accept="application/json,.json,.yaml,.yml"
+                  onChange={(event) => {
+                    void handleImportFile(event.target.files?.[0]);
+                    event.target.value = "";
+                  }}
+                />
+              </div>
+            </div>
+            <div className="actions">
+              <button
+                className="button primary"
+                type="button"
+                onClick={() => handleImport(importSource)}
+                disabled={!importSource.trim()}
+              >
+                Import into builder
+              </button>
+            </div>
+            {importReport && (
+              <>
+                <div
+                  className={`status-pill${importReport.mappedFields ? "" : " warning"}`}
+                >
+                  {importReport.mappedFields} settings restored
+                </div>
+                {importReport.issues.length > 0 && (
+                  <ul className="issue-list">
+                    {importReport.issues.map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="grid">
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Messenger Settings</h2>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="automationName">Workflow name</label>
+                <input
+                  id="automationName"
+                  value={form.automationName}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      automationName: event.target.value,
+                      webhookPath:
+                        previous.webhookPath ||
+                        `facebook/${sanitizeWebhookPath(event.target.value)}`
+                    }))
+                  }
+                  placeholder="Messenger Concierge"
+                />
+              </div>
+              <div className="input-group">
+                <label>Channels</label>
+                <div className="channel-list">
+                  {CHANNELS.map((choice) => (
+                    <label key={choice.value}>
+                      <input
+                        type="checkbox"
+                        checked={form.channels.includes(choice.value)}
+                        disabled={
+                          form.channels.length === 1 &&
+                          form.channels.includes(choice.value)
+                        }
+                        onChange={(event) =>
+                          setForm((previous) => ({
+                            ...previous,
+                            channels: CHANNELS.map(({ value }) => value).filter(
+                              (channel) =>
+                                channel === choice.value
+                                  ? event.target.checked
+                                  : previous.channels.includes(channel)
+                            )
+                          }))
+                        }
+                      />
+                      {choice.label}
+                    </label>
+                  ))}
+                </div>
+                <p>
+                  One workflow serves every ticked channel. Subscribe the same
+                  callback URL and verify token to the Page, Instagram and
+                  WhatsApp Business Account webhooks in your Meta app.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="verifyToken">Verify token</label>
+                <input
+                  id="verifyToken"
+                  value={form.verifyToken}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      verifyToken: event.target.value
+                    }))
+                  }
+                  placeholder="Paste the webhook verify token from Meta"
+                />
+                <p>
+                  Meta sends this during webhook setup to confirm ownership. It
+                  must match exactly.
+                  {form.secretStorage === "credentials" &&
+                    " With n8n credentials it is only used by the simulator."}
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="secretStorage">Secret handling</label>
+                <select
+                  id="secretStorage"
+                  value={form.secretStorage}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      secretStorage: event.target.value as SecretStorage
+                    }))
+                  }
+                >
+                  {SECRET_STORAGE_CHOICES.map((choice) => (
+                    <option key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+                <p>
+                  Saved bots keep everything in this browser except tokens and
+                  secrets; enter them again after reloading the page.
+                </p>
+              </div>
+              {form.secretStorage === "credentials" ? (
+                <>
+                  <div className="input-group">
+                    <label htmlFor="pageTokenCredential">
+                      n8n Query Auth credential name
+                    </label>
+                    <input
+                      id="pageTokenCredential"
+                      value={form.pageTokenCredential}
+                      onChange={(event) =>
+                        setForm((previous) => ({
+                          ...previous,
+                          pageTokenCredential: event.target.value
+                        }))
+                      }
+                      placeholder={DEFAULT_PAGE_TOKEN_CREDENTIAL}
+                    />
+                    <p>
+                      Create a Query Auth credential in n8n with the name
+                      <code> access_token</code> and your Page access token as the
+                      value. The workflow references it by name.
+                    </p>
+                  </div>
+                  {form.channels.includes("whatsapp") && (
+                    <div className="input-group">
+                      <label htmlFor="whatsappTokenCredential">
+                        WhatsApp Query Auth credential name
+                      </label>
+                      <input
+                        id="whatsappTokenCredential"
+                        value={form.whatsappTokenCredential}
+                        onChange={(event) =>
+                          setForm((previous) => ({
+                            ...previous,
+                            whatsappTokenCredential: event.target.value
+                          }))
+                        }
+                        placeholder={DEFAULT_WHATSAPP_TOKEN_CREDENTIAL}
+                      />
+                      <p>
+                        Same shape as the Page token credential, holding a system
+                        user token with <code>whatsapp_business_messaging</code>.
+                      </p>
+                    </div>
+                  )}
+                  <div className="input-group">
+                    <label htmlFor="verifyTokenEnv">
+                      Verify token environment variable
+                    </label>
+                    <input
+                      id="verifyTokenEnv"
+                      value={form.verifyTokenEnv}
+                      onChange={(event) =>
+                        setForm((previous) => ({
+                          ...previous,
+                          verifyTokenEnv: sanitizeEnvName(event.target.value)
+                        }))
+                      }
+                      placeholder={DEFAULT_VERIFY_TOKEN_ENV}
+                    />
+                    <p>
+                      Set this variable on your n8n instance. Normalize Event reads
+                      it through <code>$env</code> instead of embedding the token.
+                    </p>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="appSecretEnv">
+                      App secret environment variable (optional)
+                    </label>
+                    <input
+                      id="appSecretEnv"
+                      value={form.appSecretEnv}
+                      onChange={(event) =>
+                        setForm((previous) => ({
+                          ...previous,
+                          appSecretEnv: sanitizeEnvName(event.target.value)
+                        }))
+                      }
+                      placeholder="MESSENGER_APP_SECRET"
+                    />
+                    <p>
+                      When set, webhook POSTs must carry a valid
+                      <code> X-Hub-Signature-256</code> computed with this secret.
+                      n8n needs <code>NODE_FUNCTION_ALLOW_BUILTIN=crypto</code>.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="input-group">
+                  <label htmlFor="pageAccessToken">Page access token</label>
+                  <input
+                    id="pageAccessToken"
+                    value={form.pageAccessToken}
+                    onChange={(event) =>
+                      setForm((previous) => ({
+                        ...previous,
+                        pageAccessToken: event.target.value
+                      }))
+                    }
+                    placeholder="EAAG..."
+                  />
+                  <p>
+                    Generate a long-lived token from Meta for the Facebook Page the
+                    bot should reply from. Instagram Direct replies use the token
+                    of the Page linked to the Instagram account.
+                  </p>
+                </div>
+              )}
+              {form.secretStorage === "inline" &&
+                form.channels.includes("whatsapp") && (
+                  <div className="input-group">
+                    <label htmlFor="whatsappAccessToken">
+                      WhatsApp access token
+                    </label>
+                    <input
+                      id="whatsappAccessToken"
+                      value={form.whatsappAccessToken}
+                      onChange={(event) =>
+                        setForm((previous) => ({
+                          ...previous,
+                          whatsappAccessToken: event.target.value
+                        }))
+                      }
+                      placeholder="EAAG..."
+                    />
+                    <p>
+                      A system user token with
+                      <code> whatsapp_business_messaging</code>. Replies are sent
+                      from the phone number that received each message.
+                    </p>
+                  </div>
+                )}
+              {form.secretStorage === "inline" && (
+                <div className="input-group">
+                  <label htmlFor="appSecret">App secret (optional)</label>
+                  <input
+                    id="appSecret"
+                    value={form.appSecret}
+                    onChange={(event) =>
+                      setForm((previous) => ({
+                        ...previous,
+                        appSecret: event.target.value
+                      }))
+                    }
+                    placeholder="Found under App settings → Basic in Meta"
+                  />
+                  <p>
+                    When set, webhook POSTs must carry a valid
+                    <code> X-Hub-Signature-256</code> or they are rejected with a
+                    403 before routing. n8n needs
+                    <code> NODE_FUNCTION_ALLOW_BUILTIN=crypto</code>.
+                  </p>
+                </div>
+              )}
+              <div className="input-group">
+                <label htmlFor="webhookPath">
+                  n8n webhook path (auto-prefixed with /webhook/)
+                </label>
+                <input
+                  id="webhookPath"
+                  value={form.webhookPath}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      webhookPath: sanitizeWebhookPath(event.target.value)
+                    }))
+                  }
+                  placeholder="facebook/messenger-concierge"
+                />
+                <p>
+                  Your webhook URL will be
+                  {` https://<your-n8n-host>/webhook/${form.webhookPath || "facebook/messenger-concierge"}`}
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="timezone">Workflow timezone</label>
+                <select
+                  id="timezone"
+                  value={form.timezone}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      timezone: event.target.value
+                    }))
+                  }
+                >
+                  {TIMEZONE_CHOICES.map((choice) => (
+                    <option key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Conversation design</h2>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="defaultReply">Default fallback reply</label>
+                <textarea
+                  id="defaultReply"
+                  value={form.defaultReply}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      defaultReply: event.target.value
+                    }))
+                  }
+                  rows={5}
+                  placeholder="Thanks for reaching out..."
+                />
+                <p>
+                  Sent when no keyword match is found. Keep it short and helpful,
+                  and point to next steps.
+                </p>
+              </div>
+              <div className="input-group">
+                <div className="editor-toggle">
+                  <label
+                    htmlFor={routeEditor === "text" ? "keywordRoutes" : undefined}
+                  >
+                    Keyword routes
+                  </label>
+                  <button
+                    className={`button ${routeEditor === "table" ? "primary" : "secondary"}`}
+                    type="button"
+                    onClick={() => setRouteEditor("table")}
+                  >
+                    Table
+                  </button>
+                  <button
+                    className={`button ${routeEditor === "text" ? "primary" : "secondary"}`}
+                    type="button"
+                    onClick={() => setRouteEditor("text")}
+                  >
+                    Text
+                  </button>
+                </div>
+                {routeEditor === "table" ? (
+                  <RouteTableEditor
+                    value={keywordInput}
+                    steps={form.flows.steps
+                      .map((step) => step.id)
+                      .filter(Boolean)}
+                    onChange={handleKeywordInputChange}
+                  />
+                ) : (
+                  <textarea
+                    id="keywordRoutes"
+                    value={keywordInput}
+                    onChange={(event) =>
+                      handleKeywordInputChange(event.target.value)
+                    }
+                    rows={7}
+                    placeholder="keyword => Reply text"
+                  />
+                )}
+                <p>
+                  Format: <code>keyword | synonym =&gt; response</code>. Add an
+                  optional prefix such as <code>[word, priority=10]</code> to
+                  change how a route matches: <code>contains</code> (default),{" "}
+                  <code>word</code>, <code>startsWith</code> or{" "}
+                  <code>regex</code>. When several routes match, the highest
+                  priority wins, then the earliest line. Add{" "}
+                  <code>handover</code> to pass the thread to a human after
+                  replying, <code>lookup</code> to fill the reply from the order
+                  lookup, or <code>await=step</code> to start a conversation
+                  flow. Indented lines such as{" "}
+                  <code>&nbsp;&nbsp;fr: bonjour | salut =&gt; Bonjour !</code>{" "}
+                  translate the route above them when languages are enabled.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="handoverTargetAppId">Handover target app ID</label>
+                <input
+                  id="handoverTargetAppId"
+                  value={form.handoverTargetAppId}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      handoverTargetAppId: event.target.value.replace(/\D+/g, "")
+                    }))
+                  }
+                  placeholder={PAGE_INBOX_APP_ID}
+                />
+                <p>
+                  Handover routes call <code>pass_thread_control</code> with this
+                  app. {PAGE_INBOX_APP_ID} is Meta&apos;s Page Inbox.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="handoverPauseMinutes">
+                  Pause the bot after handover (minutes)
+                </label>
+                <input
+                  id="handoverPauseMinutes"
+                  type="number"
+                  min={1}
+                  value={form.handoverPauseMinutes}
+                  onChange={(event) =>
+                    setForm((previous) => ({
+                      ...previous,
+                      handoverPauseMinutes: Math.max(
+                        1,
+                        Number(event.target.value) || 1
+                      )
+                    }))
+                  }
+                />
+                <p>
+                  The bot stays silent for that sender until the window ends or
+                  thread control is passed back.
+                </p>
+              </div>
+            </div>
+            <div className="chip-list">
+              {activeRoutes.map((route, index) => (
+                <span
+                  className={`chip${
+                    route.matchMode === "regex" &&
+                    invalidPatterns.some((invalid) =>
+                      route.phrases.includes(invalid.pattern)
+                    )
+                      ? " invalid"
+                      : ""
+                  }`}
+                  key={`${route.phrases.join("|")}-${index}`}
+                  title={`${MATCH_MODE_LABELS[route.matchMode]} · priority ${route.priority}`}
+                >
+                  {route.matchMode === "regex"
+                    ? `/${route.phrases[0]}/`
+                    : route.phrases.join(" · ").toLowerCase()}
+                  {route.action === "handover" && " → human"}
+                  {route.action === "lookup" && " → lookup"}
+                </span>
+              ))}
+            </div>
+            {(parsedKeywords.problems.length > 0 ||
+              routeWarnings.length > 0 ||
+              invalidPatterns.length > 0) && (
+              <ul className="issue-list">
+                {parsedKeywords.problems.map((problem) => (
+                  <li key={`line-${problem.line}`}>
+                    Line {problem.line} (<code>{problem.text}</code>) is
+                    skipped: {problem.message}
+                  </li>
+                ))}
+                {routeWarnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+                {invalidPatterns.map((invalid, index) => (
+                  <li key={`regex-${index}`}>
+                    Invalid regex <code>{invalid.pattern}</code>: {invalid.message}.
+                    This route will never match.
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="status-pill">
+              <span role="img" aria-label="bolt">
+                ⚡
+              </span>
+              {activeRoutes.length} smart routes active
+            </div>
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Rich replies</h2>
+            {richReplyRoute ? (
+              <div className="input-grid rich-editor">
+                <div className="input-group">
+                  <label htmlFor="richReplyRoute">Route</label>
+                  <select
+                    id="richReplyRoute"
+                    value={getRouteKey(richReplyRoute)}
+                    onChange={(event) => setRichReplyRouteKey(event.target.value)}
+                  >
+                    {richReplyRoutes.map((route, index) => (
+                      <option key={index} value={getRouteKey(route)}>
+                        {route.phrases.join(" | ")}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="input-group">
+                  <label htmlFor="richReplyType">Reply type</label>
+                  <select
+                    id="richReplyType"
+                    value={richReply?.type ?? "text"}
+                    onChange={(event) =>
+                      updateRichReply(
+                        event.target.value === "text"
+                          ? undefined
+                          : createRichReply(
+                              event.target.value as RichReply["type"]
+                            )
+                      )
+                    }
+                  >
+                    <option value="text">Plain text</option>
+                    {Object.entries(RICH_REPLY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <p>
+                    The route&apos;s reply text is sent with the chips or buttons.
+                    Carousels send only their cards.
+                  </p>
+                </div>
+                {richReply?.type === "quickReplies" && (
+                  <div className="rich-list">
+                    {richReply.options.map((option, index) => (
+                      <div className="rich-row" key={index}>
+                        <input
+                          aria-label="Chip title"
+                          value={option.title}
+                          maxLength={MAX_BUTTON_TITLE}
+                          onChange={(event) =>
+                            updateRichReply({
+                              ...richReply,
+                              options: replaceAt(richReply.options, index, {
+                                ...option,
+                                title: event.target.value
+                              })
+                            })
+                          }
+                          placeholder="Chip title"
+                        />
+                        <input
+                          aria-label="Chip payload"
+                          value={option.payload}
+                          onChange={(event) =>
+                            updateRichReply({
+                              ...richReply,
+                              options: replaceAt(richReply.options, index, {
+                                ...option,
+                                payload: event.target.value
+                              })
+                            })
+                          }
+                          placeholder="status"
+                        />
+                        <button
+                          className="button secondary"
+                          type="button"
+                          onClick={() =>
+                            updateRichReply({
+                              ...richReply,
+                              options: removeAt(richReply.options, index)
+                            })
+                          }
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      className="button secondary"
+                      type="button"
+                      disabled={richReply.options.length >= MAX_QUICK_REPLIES}
+                      onClick={() =>
+                        updateRichReply({
+                          ...richReply,
+                          options: [...richReply.options, { title: "", payload: "" }]
+                        })
+                      }
+                    >
+                      Add chip
+                    </button>
+                  </div>
+                )}
+                {richReply?.type === "buttons" && (
+                  <ButtonListEditor
+                    buttons={richReply.buttons}
+                    onChange={(buttons) =>
+                      updateRichReply({ type: "buttons", buttons })
+                    }
+                  />
+                )}
+                {richReply?.type === "carousel" && (
+                  <div className="rich-list">
+                    {richReply.cards.map((card, index) => {
+                      const updateCard = (changes: Partial<CarouselCard>) =>
+                        updateRichReply({
+                          ...richReply,
+                          cards: replaceAt(richReply.cards, index, {
+                            ...card,
+                            ...changes
+                          })
+                        });
+                      return (
+                        <div className="rich-card" key={index}>
+                          <input
+                            aria-label="Card title"
+                            value={card.title}
+                            maxLength={80}
+                            onChange={(event) =>
+                              updateCard({ title: event.target.value })
+                            }
+                            placeholder="Card title"
+                          />
+                          <input
+                            aria-label="Card subtitle"
+                            value={card.subtitle}
+                            maxLength={80}
+                            onChange={(event) =>
+                              updateCard({ subtitle: event.target.value })
+                            }
+                            placeholder="Subtitle (optional)"
+                          />
+                          <input
+                            aria-label="Card image URL"
+                            value={card.imageUrl}
+                            onChange={(event) =>
+                              updateCard({ imageUrl: event.target.value })
+                            }
+                            placeholder="Image URL (optional)"
+                          />
+                          <ButtonListEditor
+                            buttons={card.buttons}
+                            onChange={(buttons) => updateCard({ buttons })}
+                          />
+                          <button
+                            className="button secondary"
+                            type="button"
+                            onClick={() =>
+                              updateRichReply({
+                                ...richReply,
+                                cards: removeAt(richReply.cards, index)
+                              })
+                            }
+                          >
+                            Remove card
+                          </button>
+                        </div>
+                      );
+                    })}
+                    <button
+                      className="button secondary"
+                      type="button"
+                      disabled={richReply.cards.length >= MAX_CAROUSEL_CARDS}
+                      onClick={() =>
+                        updateRichReply({
+                          ...richReply,
+                          cards: [
+                            ...richReply.cards,
+                            { title: "", subtitle: "", imageUrl: "", buttons: [] }
+                          ]
+                        })
+                      }
+                    >
+                      Add card
+                    </button>
+                  </div>
+                )}
+                <p>
+                  Postback and quick-reply payloads are matched against your
+                  keyword routes like typed text, so use a route phrase such as{" "}
+                  <code>status</code> as the payload.
+                </p>
+              </div>
+            ) : (
+              <p>
+                Add a keyword route to attach quick replies, buttons or a
+                carousel.
+              </p>
+            )}
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Conversation flows</h2>
+            <p>
+              A route with a follow-up step waits for the sender&apos;s next
+              message. The step checks the answer, keeps it as a variable for{" "}
+              <code>{"{{name}}"}</code> placeholders in later replies and can
+              ask the next question.
+            </p>
+            {activeRoutes.some((route) => route.awaiting) && (
+              <div className="flow-diagram">
+                {activeRoutes
+                  .filter((route) => route.awaiting)
+                  .map((route, index) => {
+                    const { path, end } = traceFlowPath(
+                      form.flows,
+                      route.awaiting ?? ""
+                    );
+                    return (
+                      <div className="flow-path" key={index}>
+                        <span className="flow-node route">{route.phrases[0]}</span>
+                        {path.flatMap((step) => [
+                          <span className="flow-arrow" key={`${step.id}-arrow`}>
+                            →
+                          </span>,
+                          <span className="flow-node" key={step.id}>
+                            {step.id}
+                            <em>captures {step.variable || step.id}</em>
+                          </span>
+                        ])}
+                        <span className="flow-arrow">→</span>
+                        <span
+                          className={`flow-node end${end.startsWith("missing") ? " invalid" : ""}`}
+                        >
+                          {end}
+                        </span>
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+            <div className="input-grid rich-editor">
+              <div className="input-group">
+                <label htmlFor="flowTimeout">
+                  Forget an unfinished flow after (minutes)
+                </label>
+                <input
+                  id="flowTimeout"
+                  type="number"
+                  min={1}
+                  value={form.flows.timeoutMinutes}
+                  onChange={(event) =>
+                    updateFlows({
+                      timeoutMinutes: Math.max(1, Number(event.target.value) || 1)
+                    })
+                  }
+                />
+                <p>
+                  Each sender&apos;s step and variables live in the
+                  workflow&apos;s static data until this long after their last
+                  message.
+                </p>
+              </div>
+              <div className="rich-list">
+                {form.flows.steps.map((step, index) => (
+                  <div className="rich-card" key={index}>
+                    <div className="route-row-header">
+                      <strong>Step {index + 1}</strong>
+                      <button
+                        className="button secondary"
+                        type="button"
+                        onClick={() =>
+                          updateFlows({ steps: removeAt(form.flows.steps, index) })
+                        }
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <input
+                      aria-label={`Step ${index + 1} name`}
+                      className={step.id ? undefined : "invalid"}
+                      value={step.id}
+                      onChange={(event) =>
+                        updateFlowStep(index, {
+                          id: event.target.value.replace(/\W+/g, "_")
+                        })
+                      }
+                      placeholder="Step name, e.g. order_status"
+                    />
+                    <input
+                      aria-label={`Step ${index + 1} variable`}
+                      value={step.variable}
+                      onChange={(event) =>
+                        updateFlowStep(index, {
+                          variable: event.target.value.replace(/\W+/g, "_")
+                        })
+                      }
+                      placeholder="Capture the answer as, e.g. order_number"
+                    />
+                    <input
+                      aria-label={`Step ${index + 1} pattern`}
+                      value={step.pattern}
+                      onChange={(event) =>
+                        updateFlowStep(index, { pattern: event.target.value })
+                      }
+                      placeholder="Accept answers matching (regex, optional)"
+                    />
+                    <input
+                      aria-label={`Step ${index + 1} reply`}
+                      className={step.reply.trim() ? undefined : "invalid"}
+                      value={step.reply}
+                      onChange={(event) =>
+                        updateFlowStep(index, { reply: event.target.value })
+                      }
+                      placeholder="Reply to an accepted answer"
+                    />
+                    {step.pattern.trim() && (
+                      <input
+                        aria-label={`Step ${index + 1} retry reply`}
+                        value={step.retryReply}
+                        onChange={(event) =>
+                          updateFlowStep(index, { retryReply: event.target.value })
+                        }
+                        placeholder="Reply to a rejected answer"
+                      />
+                    )}
+                    <select
+                      aria-label={`Step ${index + 1} next step`}
+                      value={step.next}
+                      onChange={(event) =>
+                        updateFlowStep(index, { next: event.target.value })
+                      }
+                    >
+                      <option value="">Then end the flow</option>
+                      {form.flows.steps
+                        .filter((other) => other.id && other !== step)
+                        .map((other) => (
+                          <option key={other.id} value={other.id}>
+                            Then await {other.id}
+                          </option>
+                        ))}
+                    </select>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={step.lookup}
+                        onChange={(event) =>
+                          updateFlowStep(index, { lookup: event.target.checked })
+                        }
+                      />
+                      Look up the order with this answer; the reply can use{" "}
+                      <code>{"{{response.field}}"}</code>
+                    </label>
+                  </div>
+                ))}
+                <button
+                  className="button secondary"
+                  type="button"
+                  onClick={() =>
+                    updateFlows({
+                      steps: [
+                        ...form.flows.steps,
+                        {
+                          id: "",
+                          variable: "",
+                          pattern: "",
+                          reply: "",
+                          retryReply: "",
+                          next: "",
+                          lookup: false
+                        }
+                      ]
+                    })
+                  }
+                >
+                  Add step
+                </button>
+              </div>
+            </div>
+            {flowProblems.length > 0 && (
+              <ul className="issue-list">
+                {flowProblems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Order lookup</h2>
+            <p>
+              Routes with the <code>lookup</code> action and flow steps marked
+              for lookup call this endpoint, then fill{" "}
+              <code>{"{{response.status}}"}</code>-style placeholders in their
+              reply from the JSON it returns.
+            </p>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="lookupEndpoint">Endpoint template</label>
+                <input
+                  id="lookupEndpoint"
+                  value={form.lookup.endpoint}
+                  onChange={(event) => updateLookup({ endpoint: event.target.value })}
+                  placeholder="http://localhost:4000/orders/{{order_number}}"
+                />
+                <p>
+                  A GET request. <code>{"{{variable}}"}</code> placeholders are
+                  filled from the flow&apos;s captured answers. Leave empty to
+                  send lookup replies without a lookup.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="lookupAuthHeader">Auth header name</label>
+                <input
+                  id="lookupAuthHeader"
+                  value={form.lookup.authHeader}
+                  onChange={(event) =>
+                    updateLookup({ authHeader: event.target.value })
+                  }
+                  placeholder={DEFAULT_LOOKUP.authHeader}
+                />
+              </div>
+              {form.secretStorage === "credentials" ? (
+                <div className="input-group">
+                  <label htmlFor="lookupCredential">
+                    n8n Header Auth credential name
+                  </label>
+                  <input
+                    id="lookupCredential"
+                    value={form.lookupCredential}
+                    onChange={(event) =>
+                      setForm((previous) => ({
+                        ...previous,
+                        lookupCredential: event.target.value
+                      }))
+                    }
+                    placeholder={DEFAULT_LOOKUP_CREDENTIAL}
+                  />
+                  <p>
+                    The credential holds the header name and value. Leave empty
+                    for APIs without auth.
+                  </p>
+                </div>
+              ) : null}
               <div className="input-group">
-                <label htmlFor="automationName">Workflow name</label>
+                <label htmlFor="lookupAuthValue">
+                  {form.secretStorage === "credentials"
+                    ? "Auth header value for Test lookup"
+                    : "Auth header value (optional)"}
+                </label>
                 <input
-                  id="automationName"
-                  value={form.automationName}
+                  id="lookupAuthValue"
+                  value={form.lookupAuthValue}
                   onChange={(event) =>
                     setForm((previous) => ({
                       ...previous,
-                      automationName: event.target.value,
-                      webhookPath:
-                        previous.webhookPath ||
-                        `facebook/${sanitizeWebhookPath(event.target.value)}`
+                      lookupAuthValue: event.target.value
                     }))
                   }
-                  placeholder="Messenger Concierge"
+                  placeholder="Bearer ..."
                 />
+                {form.secretStorage === "credentials" && (
+                  <p>Only sent by the simulator; the workflow uses the credential.</p>
+                )}
               </div>
               <div className="input-group">
-                <label htmlFor="verifyToken">Verify token</label>
+                <label htmlFor="lookupTimeout">Timeout (seconds)</label>
                 <input
-                  id="verifyToken"
-                  value={form.verifyToken}
+                  id="lookupTimeout"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={form.lookup.timeoutSeconds}
                   onChange={(event) =>
-                    setForm((previous) => ({
-                      ...previous,
-                      verifyToken: event.target.value
-                    }))
+                    updateLookup({
+                      timeoutSeconds: Math.min(
+                        60,
+                        Math.max(1, Number(event.target.value) || 1)
+                      )
+                    })
+                  }
+                />
+              </div>
+              <div className="input-group">
+                <label htmlFor="lookupNotFound">Not found reply</label>
+                <textarea
+                  id="lookupNotFound"
+                  rows={3}
+                  value={form.lookup.notFoundReply}
+                  onChange={(event) =>
+                    updateLookup({ notFoundReply: event.target.value })
                   }
-                  placeholder="Paste the webhook verify token from Meta"
                 />
                 <p>
-                  Meta sends this during webhook setup to confirm ownership. It
-                  must match exactly.
+                  Sent when the request fails, times out or returns an empty
+                  body. It can use the flow&apos;s variables.
                 </p>
               </div>
+            </div>
+            {!form.lookup.endpoint.trim() &&
+              (activeRoutes.some((route) => route.action === "lookup") ||
+                form.flows.steps.some((step) => step.lookup)) && (
+                <ul className="issue-list">
+                  <li>
+                    Some replies use the lookup, but no endpoint is set, so they
+                    go out with their placeholders unfilled.
+                  </li>
+                </ul>
+              )}
+            <p>
+              To try it locally, point the endpoint at a mock server that allows
+              CORS, send a lookup message in the simulator and press Test
+              lookup.
+            </p>
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Languages</h2>
+            <div className="input-grid">
               <div className="input-group">
-                <label htmlFor="pageAccessToken">Page access token</label>
-                <input
-                  id="pageAccessToken"
-                  value={form.pageAccessToken}
+                <label htmlFor="localizationEnabled">Reply language</label>
+                <select
+                  id="localizationEnabled"
+                  value={form.localization.enabled ? "on" : "off"}
                   onChange={(event) =>
-                    setForm((previous) => ({
-                      ...previous,
-                      pageAccessToken: event.target.value
-                    }))
+                    updateLocalization({ enabled: event.target.value === "on" })
                   }
-                  placeholder="EAAG..."
-                />
+                >
+                  <option value="off">Always send the main replies</option>
+                  <option value="on">Answer in the customer&apos;s language</option>
+                </select>
                 <p>
-                  Generate a long-lived token from Meta for the Facebook Page the
-                  bot should reply from.
+                  Routes answer from their indented translation lines and fall
+                  back to the main reply when a language has none.
                 </p>
               </div>
+              {form.localization.enabled && (
+                <>
+                  <div className="input-group">
+                    <label>Languages</label>
+                    <div className="channel-list">
+                      {LOCALES.map((choice) => (
+                        <label key={choice.value}>
+                          <input
+                            type="checkbox"
+                            checked={form.localization.locales.includes(
+                              choice.value
+                            )}
+                            disabled={
+                              choice.value === form.localization.defaultLocale
+                            }
+                            onChange={(event) =>
+                              updateLocalization({
+                                locales: LOCALES.map(({ value }) => value).filter(
+                                  (locale) =>
+                                    locale === choice.value
+                                      ? event.target.checked
+                                      : form.localization.locales.includes(locale)
+                                )
+                              })
+                            }
+                          />
+                          {choice.label} (<code>{choice.value}</code>)
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="defaultLocale">Default language</label>
+                    <select
+                      id="defaultLocale"
+                      value={form.localization.defaultLocale}
+                      onChange={(event) =>
+                        updateLocalization({ defaultLocale: event.target.value })
+                      }
+                    >
+                      {LOCALES.filter((choice) =>
+                        form.localization.locales.includes(choice.value)
+                      ).map((choice) => (
+                        <option key={choice.value} value={choice.value}>
+                          {choice.label}
+                        </option>
+                      ))}
+                    </select>
+                    <p>
+                      Used when neither the profile nor the message gives a
+                      language. The main replies and the default fallback reply
+                      are written in it.
+                    </p>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="localeDetection">Detect the language from</label>
+                    <select
+                      id="localeDetection"
+                      value={form.localization.detection}
+                      onChange={(event) =>
+                        updateLocalization({
+                          detection: event.target.value as LocaleDetection
+                        })
+                      }
+                    >
+                      {LOCALE_DETECTIONS.map((choice) => (
+                        <option key={choice.value} value={choice.value}>
+                          {choice.label}
+                        </option>
+                      ))}
+                    </select>
+                    <p>
+                      The profile lookup needs the{" "}
+                      <code>pages_user_locale</code> permission and applies from
+                      a sender&apos;s second message on. Instagram and WhatsApp
+                      always use the message language.
+                    </p>
+                  </div>
+                  {LOCALES.filter(
+                    (choice) =>
+                      form.localization.locales.includes(choice.value) &&
+                      choice.value !== form.localization.defaultLocale
+                  ).map((choice) => (
+                    <div className="input-group" key={choice.value}>
+                      <label htmlFor={`defaultReply-${choice.value}`}>
+                        Default fallback reply ({choice.label})
+                      </label>
+                      <textarea
+                        id={`defaultReply-${choice.value}`}
+                        rows={3}
+                        value={form.localization.defaultReplies[choice.value] ?? ""}
+                        onChange={(event) =>
+                          updateLocalization({
+                            defaultReplies: {
+                              ...form.localization.defaultReplies,
+                              [choice.value]: event.target.value
+                            }
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Business hours</h2>
+            <div className="input-grid">
               <div className="input-group">
-                <label htmlFor="webhookPath">
-                  n8n webhook path (auto-prefixed with /webhook/)
-                </label>
-                <input
-                  id="webhookPath"
-                  value={form.webhookPath}
+                <label htmlFor="scheduleEnabled">After-hours handling</label>
+                <select
+                  id="scheduleEnabled"
+                  value={form.schedule.enabled ? "on" : "off"}
                   onChange={(event) =>
-                    setForm((previous) => ({
-                      ...previous,
-                      webhookPath: sanitizeWebhookPath(event.target.value)
-                    }))
+                    updateSchedule({ enabled: event.target.value === "on" })
                   }
-                  placeholder="facebook/messenger-concierge"
-                />
+                >
+                  <option value="off">Always reply as if the team is online</option>
+                  <option value="on">Use the weekly schedule below</option>
+                </select>
                 <p>
-                  Your webhook URL will be
-                  {` https://<your-n8n-host>/webhook/${form.webhookPath || "facebook/messenger-concierge"}`}
+                  Opening hours are evaluated in the workflow timezone,{" "}
+                  {form.timezone}, each time a message arrives.
                 </p>
               </div>
+              {form.schedule.enabled && (
+                <>
+                  <div className="schedule-grid">
+                    {WEEKDAYS.map(({ value, label }) => {
+                      const day = form.schedule.days[value];
+                      return (
+                        <div className="schedule-row" key={value}>
+                          <label>
+                            <input
+                              type="checkbox"
+                              checked={day.open}
+                              onChange={(event) =>
+                                updateDay(value, { open: event.target.checked })
+                              }
+                            />
+                            {label}
+                          </label>
+                          <input
+                            type="time"
+                            aria-label={`${label} opening time`}
+                            value={day.from}
+                            disabled={!day.open}
+                            onChange={(event) =>
+                              updateDay(value, { from: event.target.value })
+                            }
+                          />
+                          <input
+                            type="time"
+                            aria-label={`${label} closing time`}
+                            value={day.to}
+                            disabled={!day.open}
+                            onChange={(event) =>
+                              updateDay(value, { to: event.target.value })
+                            }
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="holidays">Holiday dates</label>
+                    <textarea
+                      id="holidays"
+                      value={form.schedule.holidays}
+                      onChange={(event) =>
+                        updateSchedule({ holidays: event.target.value })
+                      }
+                      rows={3}
+                      placeholder="2026-12-25"
+                    />
+                    <p>
+                      One <code>YYYY-MM-DD</code> date per line. The team is treated
+                      as closed all day.
+                    </p>
+                    {holidayInput.invalid.length > 0 && (
+                      <ul className="issue-list">
+                        {holidayInput.invalid.map((entry) => (
+                          <li key={entry}>
+                            &quot;{entry}&quot; is not a YYYY-MM-DD date and will be
+                            ignored.
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="afterHoursReply">After-hours reply</label>
+                    <textarea
+                      id="afterHoursReply"
+                      value={form.schedule.afterHoursReply}
+                      onChange={(event) =>
+                        updateSchedule({ afterHoursReply: event.target.value })
+                      }
+                      rows={3}
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="afterHoursMode">When closed</label>
+                    <select
+                      id="afterHoursMode"
+                      value={form.schedule.afterHoursMode}
+                      onChange={(event) =>
+                        updateSchedule({
+                          afterHoursMode: event.target
+                            .value as BusinessSchedule["afterHoursMode"]
+                        })
+                      }
+                    >
+                      <option value="replace">
+                        Send the after-hours reply instead
+                      </option>
+                      <option value="suffix">
+                        Append it to the matched reply
+                      </option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>AI fallback</h2>
+            <div className="input-grid">
               <div className="input-group">
-                <label htmlFor="timezone">Workflow timezone</label>
+                <label htmlFor="aiEnabled">When no route matches</label>
                 <select
-                  id="timezone"
-                  value={form.timezone}
+                  id="aiEnabled"
+                  value={form.aiFallback.enabled ? "on" : "off"}
                   onChange={(event) =>
-                    setForm((previous) => ({
-                      ...previous,
-                      timezone: event.target.value
-                    }))
+                    updateAiFallback({ enabled: event.target.value === "on" })
                   }
                 >
-                  {TIMEZONE_CHOICES.map((choice) => (
+                  <option value="off">Send the default reply</option>
+                  <option value="on">Ask an OpenAI-compatible model</option>
+                </select>
+                <p>
+                  The message, your system prompt and the keyword routes go to
+                  the endpoint. On an error, a timeout or an empty answer the
+                  default reply is sent instead.
+                </p>
+              </div>
+              {form.aiFallback.enabled && (
+                <>
+                  <div className="input-group">
+                    <label htmlFor="aiEndpoint">Chat completions URL</label>
+                    <input
+                      id="aiEndpoint"
+                      value={form.aiFallback.endpoint}
+                      onChange={(event) =>
+                        updateAiFallback({ endpoint: event.target.value })
+                      }
+                      placeholder={DEFAULT_AI_FALLBACK.endpoint}
+                    />
+                    <p>
+                      Any server that speaks the OpenAI chat API, e.g.
+                      <code> http://localhost:11434/v1/chat/completions</code> for
+                      a local Ollama.
+                    </p>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="aiModel">Model</label>
+                    <input
+                      id="aiModel"
+                      value={form.aiFallback.model}
+                      onChange={(event) =>
+                        updateAiFallback({ model: event.target.value })
+                      }
+                      placeholder={DEFAULT_AI_FALLBACK.model}
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="aiTimeout">Timeout (seconds)</label>
+                    <input
+                      id="aiTimeout"
+                      type="number"
+                      min={1}
+                      max={60}
+                      value={form.aiFallback.timeoutSeconds}
+                      onChange={(event) =>
+                        updateAiFallback({
+                          timeoutSeconds: Math.min(
+                            60,
+                            Math.max(1, Number(event.target.value) || 1)
+                          )
+                        })
+                      }
+                    />
+                    <p>Meta expects replies quickly, so keep this short.</p>
+                  </div>
+                  {form.secretStorage === "credentials" ? (
+                    <div className="input-group">
+                      <label htmlFor="aiKeyCredential">
+                        n8n Header Auth credential name
+                      </label>
+                      <input
+                        id="aiKeyCredential"
+                        value={form.aiKeyCredential}
+                        onChange={(event) =>
+                          setForm((previous) => ({
+                            ...previous,
+                            aiKeyCredential: event.target.value
+                          }))
+                        }
+                        placeholder={DEFAULT_AI_KEY_CREDENTIAL}
+                      />
+                      <p>
+                        Name <code>Authorization</code>, value
+                        <code> Bearer &lt;key&gt;</code>. Leave empty for servers
+                        without a key.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="input-group">
+                      <label htmlFor="aiApiKey">API key (optional)</label>
+                      <input
+                        id="aiApiKey"
+                        value={form.aiApiKey}
+                        onChange={(event) =>
+                          setForm((previous) => ({
+                            ...previous,
+                            aiApiKey: event.target.value
+                          }))
+                        }
+                        placeholder="sk-..."
+                      />
+                      <p>Sent as a Bearer token. Local servers usually need none.</p>
+                    </div>
+                  )}
+                  <div className="input-group">
+                    <label htmlFor="aiSystemPrompt">System prompt</label>
+                    <textarea
+                      id="aiSystemPrompt"
+                      rows={4}
+                      value={form.aiFallback.systemPrompt}
+                      onChange={(event) =>
+                        updateAiFallback({ systemPrompt: event.target.value })
+                      }
+                    />
+                    <p>
+                      The keyword routes and their replies are appended so the
+                      model knows what the bot already answers.
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+          <div className="panel" style={{ padding: 28 }}>
+            <h2>Conversation log</h2>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="logSink">Log every replied message</label>
+                <select
+                  id="logSink"
+                  value={form.logging.sink}
+                  onChange={(event) =>
+                    updateLogging({ sink: event.target.value as LogSink })
+                  }
+                >
+                  {LOG_SINK_CHOICES.map((choice) => (
                     <option key={choice.value} value={choice.value}>
                       {choice.label}
                     </option>
                   ))}
                 </select>
+                <p>
+                  Each row holds <code>{LOG_COLUMNS.join(", ")}</code>. A
+                  failing sink never holds up the reply.
+                </p>
               </div>
+              {form.logging.sink === "postgres" && (
+                <>
+                  <div className="input-group">
+                    <label htmlFor="logTable">Table</label>
+                    <input
+                      id="logTable"
+                      value={form.logging.postgresTable}
+                      onChange={(event) =>
+                        updateLogging({ postgresTable: event.target.value })
+                      }
+                      placeholder={DEFAULT_LOGGING.postgresTable}
+                    />
+                    <p>In the public schema, with one column per field.</p>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="logPostgresCredential">
+                      n8n Postgres credential name
+                    </label>
+                    <input
+                      id="logPostgresCredential"
+                      value={form.logging.postgresCredential}
+                      onChange={(event) =>
+                        updateLogging({ postgresCredential: event.target.value })
+                      }
+                      placeholder={DEFAULT_LOGGING.postgresCredential}
+                    />
+                  </div>
+                </>
+              )}
+              {form.logging.sink === "googleSheets" && (
+                <>
+                  <div className="input-group">
+                    <label htmlFor="logSheetId">Spreadsheet ID</label>
+                    <input
+                      id="logSheetId"
+                      value={form.logging.sheetId}
+                      onChange={(event) =>
+                        updateLogging({ sheetId: event.target.value })
+                      }
+                      placeholder="1AbC...xyz"
+                    />
+                    <p>
+                      The long ID from the sheet URL. Put the field names in the
+                      first row of the range.
+                    </p>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="logSheetRange">Range</label>
+                    <input
+                      id="logSheetRange"
+                      value={form.logging.sheetRange}
+                      onChange={(event) =>
+                        updateLogging({ sheetRange: event.target.value })
+                      }
+                      placeholder={DEFAULT_LOGGING.sheetRange}
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="logSheetsCredential">
+                      n8n Google Sheets credential name
+                    </label>
+                    <input
+                      id="logSheetsCredential"
+                      value={form.logging.sheetsCredential}
+                      onChange={(event) =>
+                        updateLogging({ sheetsCredential: event.target.value })
+                      }
+                      placeholder={DEFAULT_LOGGING.sheetsCredential}
+                    />
+                  </div>
+                </>
+              )}
+              {form.logging.sink === "http" && (
+                <div className="input-group">
+                  <label htmlFor="logHttpUrl">Endpoint URL</label>
+                  <input
+                    id="logHttpUrl"
+                    value={form.logging.httpUrl}
+                    onChange={(event) =>
+                      updateLogging({ httpUrl: event.target.value })
+                    }
+                    placeholder="https://logs.example.com/messenger"
+                  />
+                  <p>Receives one JSON object per message.</p>
+                </div>
+              )}
             </div>
           </div>
-
           <div className="panel" style={{ padding: 28 }}>
-            <h2>Conversation design</h2>
+            <h2>Send retries and alerts</h2>
+            <p>
+              The webhook is answered before any reply goes out. Failed sends
+              are retried on rate limits, 5xx and network errors, waiting twice
+              as long each time.
+            </p>
             <div className="input-grid">
               <div className="input-group">
-                <label htmlFor="defaultReply">Default fallback reply</label>
-                <textarea
-                  id="defaultReply"
-                  value={form.defaultReply}
+                <label htmlFor="maxAttempts">Attempts per reply</label>
+                <input
+                  id="maxAttempts"
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={form.errorHandling.maxAttempts}
                   onChange={(event) =>
-                    setForm((previous) => ({
-                      ...previous,
-                      defaultReply: event.target.value
-                    }))
+                    updateErrorHandling({
+                      maxAttempts: Math.min(
+                        5,
+                        Math.max(1, Number(event.target.value) || 1)
+                      )
+                    })
                   }
-                  rows={5}
-                  placeholder="Thanks for reaching out..."
                 />
-                <p>
-                  Sent when no keyword match is found. Keep it short and helpful,
-                  and point to next steps.
-                </p>
+                <p>1 turns retries off.</p>
               </div>
               <div className="input-group">
-                <label htmlFor="keywordRoutes">
-                  Keyword routes <span style={{ opacity: 0.6 }}>(one per line)</span>
-                </label>
-                <textarea
-                  id="keywordRoutes"
-                  value={keywordInput}
-                  onChange={(event) => setKeywordInput(event.target.value)}
-                  rows={7}
-                  placeholder="keyword => Reply text"
+                <label htmlFor="retryDelay">First retry after (seconds)</label>
+                <input
+                  id="retryDelay"
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={form.errorHandling.retryDelaySeconds}
+                  onChange={(event) =>
+                    updateErrorHandling({
+                      retryDelaySeconds: Math.min(
+                        30,
+                        Math.max(1, Number(event.target.value) || 1)
+                      )
+                    })
+                  }
                 />
-                <p>
-                  Format: <code>keyword =&gt; response</code>. Use broader phrases to
-                  improve matching. The bot checks if the message contains the
-                  keyword text.
-                </p>
               </div>
-            </div>
-            <div className="chip-list">
-              {keywordRoutes.map((route, index) => (
-                <span className="chip" key={`${route.phrase}-${index}`}>
-                  {route.phrase.toLowerCase()}
-                </span>
-              ))}
-            </div>
-            <div className="status-pill">
-              <span role="img" aria-label="bolt">
-                ⚡
-              </span>
-              {keywordRoutes.length} smart routes active
+              <div className="input-group">
+                <label htmlFor="alertTarget">When a reply cannot be sent</label>
+                <select
+                  id="alertTarget"
+                  value={form.errorHandling.alert}
+                  onChange={(event) =>
+                    updateErrorHandling({
+                      alert: event.target.value as AlertTarget
+                    })
+                  }
+                >
+                  {ALERT_TARGETS.map((target) => (
+                    <option key={target.value} value={target.value}>
+                      {target.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.errorHandling.alert === "email" && (
+                <>
+                  <div className="input-group">
+                    <label htmlFor="alertEmail">Alert recipient</label>
+                    <input
+                      id="alertEmail"
+                      type="email"
+                      value={form.errorHandling.alertEmail}
+                      onChange={(event) =>
+                        updateErrorHandling({ alertEmail: event.target.value })
+                      }
+                      placeholder="support-leads@example.com"
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="alertFromEmail">Sender address</label>
+                    <input
+                      id="alertFromEmail"
+                      type="email"
+                      value={form.errorHandling.alertFromEmail}
+                      onChange={(event) =>
+                        updateErrorHandling({
+                          alertFromEmail: event.target.value
+                        })
+                      }
+                      placeholder="bot@example.com"
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="smtpCredential">n8n SMTP credential name</label>
+                    <input
+                      id="smtpCredential"
+                      value={form.errorHandling.smtpCredential}
+                      onChange={(event) =>
+                        updateErrorHandling({
+                          smtpCredential: event.target.value
+                        })
+                      }
+                      placeholder={DEFAULT_ERROR_HANDLING.smtpCredential}
+                    />
+                  </div>
+                </>
+              )}
+              {form.errorHandling.alert === "slack" &&
+                (form.secretStorage === "credentials" ? (
+                  <div className="input-group">
+                    <label>Slack webhook URL</label>
+                    <p>
+                      Read from the <code>{DEFAULT_SLACK_WEBHOOK_ENV}</code>{" "}
+                      environment variable on your n8n instance.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="input-group">
+                    <label htmlFor="slackWebhookUrl">Slack webhook URL</label>
+                    <input
+                      id="slackWebhookUrl"
+                      value={form.slackWebhookUrl}
+                      onChange={(event) =>
+                        setForm((previous) => ({
+                          ...previous,
+                          slackWebhookUrl: event.target.value
+                        }))
+                      }
+                      placeholder="https://hooks.slack.com/services/..."
+                    />
+                  </div>
+                ))}
+              {form.errorHandling.alert === "errorWorkflow" && (
+                <div className="input-group">
+                  <label htmlFor="errorWorkflowId">Error workflow ID</label>
+                  <input
+                    id="errorWorkflowId"
+                    value={form.errorHandling.errorWorkflowId}
+                    onChange={(event) =>
+                      updateErrorHandling({
+                        errorWorkflowId: event.target.value
+                      })
+                    }
+                    placeholder="e.g. 42"
+                  />
+                  <p>
+                    Set as <code>settings.errorWorkflow</code>. Failed sends stop
+                    the execution so that workflow runs; other errors reach it
+                    too.
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -582,6 +4686,57 @@ export default function Page() {
       <section className="grid" style={{ marginTop: 40 }}>
         <div className="panel">
           <h2>Generated n8n workflow</h2>
+          <div className="input-group">
+            <label htmlFor="n8nTarget">n8n target version</label>
+            <select
+              id="n8nTarget"
+              value={form.n8nTarget}
+              onChange={(event) =>
+                setForm((previous) => ({
+                  ...previous,
+                  n8nTarget: event.target.value as N8nTarget
+                }))
+              }
+            >
+              {N8N_TARGETS.map((target) => (
+                <option key={target.value} value={target.value}>
+                  {target.label}
+                </option>
+              ))}
+            </select>
+            <p>
+              Picks the node types and parameter shapes the importing n8n
+              expects. The workflow logic is the same for both.
+            </p>
+          </div>
+          <div className="workflow-lint">
+            <h3>Pre-export checks</h3>
+            <div
+              className={`status-pill${lintFindings.length ? " warning" : ""}`}
+            >
+              {lintFindings.length
+                ? `${lintErrorCount} error(s), ${lintFindings.length - lintErrorCount} warning(s)`
+                : "No problems found"}
+            </div>
+            {lintFindings.length > 0 && (
+              <ul className="lint-list">
+                {lintFindings.map((finding, index) => (
+                  <li key={index} className={finding.severity}>
+                    <strong>{finding.severity}</strong>
+                    {finding.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <label>
+              <input
+                type="checkbox"
+                checked={blockExportOnErrors}
+                onChange={(event) => setBlockExportOnErrors(event.target.checked)}
+              />
+              Block Copy and Download until errors are fixed
+            </label>
+          </div>
           <textarea
             className="workflow-code"
             value={workflowJson}
@@ -589,16 +4744,27 @@ export default function Page() {
             readOnly
           />
           <div className="actions">
-            <button className="button primary" type="button" onClick={handleCopy}>
+            <button
+              className="button primary"
+              type="button"
+              disabled={exportBlocked}
+              onClick={handleCopy}
+            >
               Copy workflow JSON
             </button>
             <button
               className="button secondary"
               type="button"
+              disabled={exportBlocked}
               onClick={handleDownload}
             >
               Download .json
             </button>
+            {exportBlocked && (
+              <span className="copy-success">
+                Fix the errors above to export.
+              </span>
+            )}
             {copyStatus === "success" && (
               <span className="copy-success">Copied to clipboard</span>
             )}
@@ -606,6 +4772,531 @@ export default function Page() {
               <span className="copy-success">Clipboard blocked. Use download.</span>
             )}
           </div>
+
+          <div className="workflow-diff workflow-deploy">
+            <h3>Deploy to n8n</h3>
+            <p>
+              Creates the workflow through n8n&apos;s public API, or updates the
+              one with this ID or the same name.
+            </p>
+            <div className="input-grid">
+              <div className="input-group">
+                <label htmlFor="deployBaseUrl">n8n base URL</label>
+                <input
+                  id="deployBaseUrl"
+                  value={deployTarget.baseUrl}
+                  onChange={(event) =>
+                    setDeployTarget((previous) => ({
+                      ...previous,
+                      baseUrl: event.target.value
+                    }))
+                  }
+                  placeholder="https://n8n.example.com"
+                />
+                <p>
+                  Private and local addresses need{" "}
+                  <code>N8N_DEPLOY_ALLOWED_HOSTS</code> on this app&apos;s
+                  server.
+                </p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="deployApiKey">API key</label>
+                <input
+                  id="deployApiKey"
+                  type="password"
+                  value={deployTarget.apiKey}
+                  onChange={(event) =>
+                    setDeployTarget((previous) => ({
+                      ...previous,
+                      apiKey: event.target.value
+                    }))
+                  }
+                  placeholder="From Settings → n8n API"
+                />
+                <p>Only used for this deploy; it is not saved with the project.</p>
+              </div>
+              <div className="input-group">
+                <label htmlFor="deployWorkflowId">Workflow ID (optional)</label>
+                <input
+                  id="deployWorkflowId"
+                  value={activeProject.deployedWorkflowId ?? ""}
+                  onChange={(event) =>
+                    setDeployedWorkflowId(activeProject.id, event.target.value)
+                  }
+                  placeholder={`Matches "${form.automationName}" when empty`}
+                />
+              </div>
+            </div>
+            <label>
+              <input
+                type="checkbox"
+                checked={deployTarget.activate}
+                onChange={(event) =>
+                  setDeployTarget((previous) => ({
+                    ...previous,
+                    activate: event.target.checked
+                  }))
+                }
+              />
+              Activate the workflow after saving
+            </label>
+            <div className="actions">
+              <button
+                className="button primary"
+                type="button"
+                disabled={exportBlocked || deployResult === "deploying"}
+                onClick={handleDeploy}
+              >
+                {deployResult === "deploying" ? "Deploying…" : "Deploy workflow"}
+              </button>
+            </div>
+            {deployResult && deployResult !== "deploying" && (
+              deployResult.ok ? (
+                <div className="simulator-result">
+                  <dl>
+                    <dt>Workflow</dt>
+                    <dd>
+                      {deployResult.created ? "Created" : "Updated"}{" "}
+                      {deployResult.workflowId}
+                      {deployResult.active ? " · active" : " · inactive"}
+                    </dd>
+                    <dt>Production webhook URL</dt>
+                    <dd>{deployResult.webhookUrl ?? "—"}</dd>
+                  </dl>
+                  <p>
+                    Use this URL as the callback URL in your Meta app. If n8n
+                    sets WEBHOOK_URL, replace the base URL with that address.
+                  </p>
+                </div>
+              ) : (
+                <ul className="issue-list">
+                  <li>{deployResult.error}</li>
+                </ul>
+              )
+            )}
+          </div>
+
+          <div className="workflow-diff">
+            <h3>Compare with previous export</h3>
+            <p>
+              {compareFile
+                ? `Changes against ${compareFile.name}.`
+                : activeProject.lastExport
+                  ? `Changes since the export on ${formatTimestamp(activeProject.lastExport.exportedAt)}.`
+                  : "Copy or download the workflow once and later edits are listed here."}{" "}
+              Ids and timestamps come from the project, so unchanged settings
+              export byte-identical JSON.
+            </p>
+            <div className="input-group">
+              <label htmlFor="compareFile">Compare against a saved export</label>
+              <input
+                id="compareFile"
+                type="file"
+                accept="application/json,.json"
+                onChange={(event) => {
+                  void handleCompareFile(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+              />
+            </div>
+            {compareFile && (
+              <div className="actions">
+                <button
+                  className="button secondary"
+                  type="button"
+                  onClick={() => setCompareFile(null)}
+                >
+                  Back to the last export
+                </button>
+              </div>
+            )}
+            {compareImport && !compareImport.keywordRoutes && (
+              <ul className="issue-list">
+                {compareImport.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+            {workflowChanges && (
+              <>
+                <div
+                  className={`status-pill${workflowChanges.length ? " warning" : ""}`}
+                >
+                  {workflowChanges.length
+                    ? `${workflowChanges.length} change(s)`
+                    : "No changes"}
+                </div>
+                {(["routes", "replies", "settings"] as const).map((section) => {
+                  const sectionChanges = workflowChanges.filter(
+                    (change) => change.section === section
+                  );
+                  return (
+                    sectionChanges.length > 0 && (
+                      <div key={section}>
+                        <h4>{CHANGE_SECTION_LABELS[section]}</h4>
+                        <ul className="diff-list">
+                          {sectionChanges.map((change, index) => (
+                            <li key={index} className={change.kind}>
+                              <strong>
+                                {change.kind} · {change.label}
+                              </strong>
+                              {change.before !== undefined && (
+                                <del>{change.before}</del>
+                              )}
+                              {change.after !== undefined && (
+                                <ins>{change.after}</ins>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )
+                  );
+                })}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="panel">
+          <h2>Conversation simulator</h2>
+          <p>
+            Runs the Normalize Event code from the generated workflow against a
+            sample message, webhook body or verification request, and shows
+            which branch each IF node would take for every event in the batch.
+          </p>
+          <div className="input-grid">
+            <div className="input-group">
+              <label htmlFor="simulatorMode">Simulate</label>
+              <select
+                id="simulatorMode"
+                value={simulatorMode}
+                onChange={(event) => {
+                  const mode = event.target.value as SimulatorMode;
+                  setSimulatorMode(mode);
+                  setSimulatorInput(
+                    getSimulatorSample(mode, form, activeSimulatorChannel)
+                  );
+                }}
+              >
+                {SIMULATOR_MODES.map((choice) => (
+                  <option key={choice.value} value={choice.value}>
+                    {choice.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.channels.length > 1 && simulatorMode !== "verification" && (
+              <div className="input-group">
+                <label htmlFor="simulatorChannel">Channel</label>
+                <select
+                  id="simulatorChannel"
+                  value={activeSimulatorChannel}
+                  onChange={(event) => {
+                    const channel = event.target.value as Channel;
+                    setSimulatorChannel(channel);
+                    if (simulatorMode === "webhook") {
+                      setSimulatorInput(
+                        getSimulatorSample(simulatorMode, form, channel)
+                      );
+                    }
+                  }}
+                >
+                  {CHANNELS.filter((choice) =>
+                    form.channels.includes(choice.value)
+                  ).map((choice) => (
+                    <option key={choice.value} value={choice.value}>
+                      {choice.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="input-group">
+              <label htmlFor="simulatorInput">
+                {simulatorMode === "message"
+                  ? "Incoming message"
+                  : simulatorMode === "webhook"
+                    ? "Webhook POST body"
+                    : "Webhook GET query string"}
+              </label>
+              <textarea
+                id="simulatorInput"
+                className={simulatorMode === "message" ? undefined : "workflow-code"}
+                style={simulatorMode === "message" ? undefined : { minHeight: 160 }}
+                value={simulatorInput}
+                onChange={(event) => setSimulatorInput(event.target.value)}
+                rows={simulatorMode === "message" ? 3 : 8}
+              />
+            </div>
+            {form.schedule.enabled && (
+              <div className="input-group">
+                <label htmlFor="simulatedTime">Simulated time (your local time)</label>
+                <input
+                  id="simulatedTime"
+                  type="datetime-local"
+                  value={simulatedTime}
+                  onChange={(event) => setSimulatedTime(event.target.value)}
+                />
+                <p>Leave empty to use the current time.</p>
+              </div>
+            )}
+          </div>
+          {simulation.ok ? (
+            simulation.items.map((item, index) => (
+              <div className="simulator-result" key={index}>
+                {simulation.items.length > 1 && (
+                  <h3>
+                    Event {index + 1} of {simulation.items.length}
+                  </h3>
+                )}
+                <dl>
+                  <dt>isVerification</dt>
+                  <dd>{String(item.isVerification)}</dd>
+                  <dt>statusCode</dt>
+                  <dd>{item.statusCode}</dd>
+                  {item.isVerification ? (
+                    <>
+                      <dt>responseBody</dt>
+                      <dd>{String(item.responseBody)}</dd>
+                    </>
+                  ) : (
+                    <>
+                      <dt>matchedPhrase</dt>
+                      <dd>{item.matchedPhrase ?? "— (fallback)"}</dd>
+                      {item.inputType && item.inputType !== "text" && (
+                        <>
+                          <dt>inputType</dt>
+                          <dd>{item.inputType}</dd>
+                        </>
+                      )}
+                      {item.locale && (
+                        <>
+                          <dt>locale</dt>
+                          <dd>{item.locale}</dd>
+                        </>
+                      )}
+                      {item.flowStep && (
+                        <>
+                          <dt>flowStep</dt>
+                          <dd>{item.flowStep}</dd>
+                        </>
+                      )}
+                      {item.awaiting && (
+                        <>
+                          <dt>awaiting</dt>
+                          <dd>{item.awaiting}</dd>
+                        </>
+                      )}
+                      {item.needsLookup && (
+                        <>
+                          <dt>lookupUrl</dt>
+                          <dd>{item.lookupUrl}</dd>
+                        </>
+                      )}
+                      <dt>replyText</dt>
+                      <dd>
+                        {item.needsAi
+                          ? `Asked the AI endpoint; falls back to: ${item.replyText}`
+                          : item.needsLookup
+                            ? `Filled from the lookup response: ${item.replyText}`
+                            : item.replyText ?? item.reason ?? "—"}
+                      </dd>
+                      {Object.keys(item.replyMessage ?? {}).some(
+                        (key) => key !== "text"
+                      ) && (
+                        <>
+                          <dt>replyMessage</dt>
+                          <dd>
+                            <pre>{JSON.stringify(item.replyMessage, null, 2)}</pre>
+                          </dd>
+                        </>
+                      )}
+                      {item.afterHours !== undefined && (
+                        <>
+                          <dt>afterHours</dt>
+                          <dd>{String(item.afterHours)}</dd>
+                        </>
+                      )}
+                    </>
+                  )}
+                </dl>
+                {item.needsLookup && (
+                  <div className="send-preview">
+                    <h4>Look Up Order · GET {item.lookupUrl}</h4>
+                    {lookupTest && lookupTest.url === item.lookupUrl ? (
+                      <p>
+                        {lookupTest.reply === undefined
+                          ? "Requesting…"
+                          : `${lookupTest.detail} → ${lookupTest.reply}`}
+                      </p>
+                    ) : (
+                      <p>
+                        Runs the request from this browser and fills the reply
+                        the way Use Lookup Reply would.
+                      </p>
+                    )}
+                    <div className="actions">
+                      <button
+                        className="button secondary"
+                        type="button"
+                        onClick={() => handleTestLookup(item)}
+                      >
+                        Test lookup
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <ul>
+                  {describeBranches(item, form, activeRoutes).map((branch) => (
+                    <li key={branch}>{branch}</li>
+                  ))}
+                </ul>
+                {previewSendRequests(workflowJson, item).map((request) => (
+                  <div className="send-preview" key={request.node}>
+                    <h4>
+                      {request.node} · POST {request.url}
+                    </h4>
+                    <pre>{JSON.stringify(request.body, null, 2)}</pre>
+                    {request.problems.length > 0 ? (
+                      <ul className="issue-list">
+                        {request.problems.map((problem) => (
+                          <li key={problem}>{problem}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <div className="status-pill">Body evaluates cleanly</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))
+          ) : (
+            <ul className="issue-list">
+              <li>{simulation.error}</li>
+            </ul>
+          )}
+          {usesFlows(form, activeRoutes) && simulatorMode !== "verification" && (
+            <div className="simulator-result">
+              <h3>Flow sessions after this message</h3>
+              {simulatedSessions.length > 0 ? (
+                <ul>
+                  {simulatedSessions.map(([senderId, session]) => (
+                    <li key={senderId}>
+                      {senderId}:{" "}
+                      {session.step ? `awaiting ${session.step}` : "no open step"}
+                      {Object.entries(session.variables)
+                        .map(([name, value]) => ` · ${name} = ${value}`)
+                        .join("")}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p>
+                  No open sessions. Send a message that starts a flow, then
+                  continue with the answer.
+                </p>
+              )}
+              <div className="actions">
+                <button
+                  className="button primary"
+                  type="button"
+                  disabled={!simulation.ok}
+                  onClick={() => {
+                    if (simulation.ok) {
+                      setSimulatorState(simulation.staticData);
+                      setSimulatorInput("");
+                    }
+                  }}
+                >
+                  Continue from this message
+                </button>
+                <button
+                  className="button secondary"
+                  type="button"
+                  onClick={() => setSimulatorState({})}
+                >
+                  Reset conversation
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="panel">
+          <h2>Message analytics</h2>
+          <p>
+            Load a CSV export of the conversation log to see which routes
+            answer, how often the bot falls back, and what people ask that no
+            route covers yet.
+          </p>
+          <div className="input-group">
+            <label htmlFor="logFile">Conversation log CSV</label>
+            <input
+              id="logFile"
+              type="file"
+              accept="text/csv,.csv"
+              onChange={(event) => {
+                void handleLogFile(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </div>
+          {typeof logAnalytics === "string" && (
+            <ul className="issue-list">
+              <li>{logAnalytics}</li>
+            </ul>
+          )}
+          {logAnalytics && typeof logAnalytics !== "string" && (
+            <div className="log-analytics">
+              <div
+                className={`status-pill${
+                  logAnalytics.fallbacks > logAnalytics.total / 4 ? " warning" : ""
+                }`}
+              >
+                {logAnalytics.total} message(s) in {logFile?.name} ·{" "}
+                {logAnalytics.total
+                  ? Math.round((logAnalytics.fallbacks / logAnalytics.total) * 100)
+                  : 0}
+                % fell back
+                {logAnalytics.flowAnswers > 0 &&
+                  ` · ${logAnalytics.flowAnswers} flow answer(s)`}
+              </div>
+              <h3>Route hits</h3>
+              {logAnalytics.routeHits.length ? (
+                <ul className="hit-list">
+                  {logAnalytics.routeHits.map((hit) => (
+                    <li key={hit.label}>
+                      <span>{hit.label}</span>
+                      <strong>{hit.count}</strong>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p>No message in the log matched a route.</p>
+              )}
+              <h3>Unmatched messages</h3>
+              {logAnalytics.unmatched.length ? (
+                <ul className="hit-list">
+                  {logAnalytics.unmatched.map((entry) => (
+                    <li key={entry.text}>
+                      <span>{entry.text}</span>
+                      <strong>{entry.count}</strong>
+                      <button
+                        className="button secondary"
+                        type="button"
+                        onClick={() => handleSuggestRoute(entry.text)}
+                      >
+                        Add route
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p>Every logged message matched a route.</p>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="panel">
@@ -616,32 +5307,92 @@ export default function Page() {
           </p>
           <ul style={{ lineHeight: 1.6 }}>
             <li>
-              <strong>Webhook handshake</strong> — gracefully handles the Meta
-              verification challenge and protects against mismatched tokens.
+              <strong>Webhook handshake</strong> — answers Meta&apos;s GET
+              verification challenge on the same path as the event POSTs and
+              protects against mismatched tokens.
+            </li>
+            <li>
+              <strong>Signature check</strong> — with an App Secret set, rejects
+              POSTs whose X-Hub-Signature-256 does not match with a 403.
+            </li>
+            <li>
+              <strong>Keyword routing</strong> — matches your phrases by
+              substring, whole word, prefix or regex so you can trigger different
+              responses or escalate paths.
+            </li>
+            <li>
+              <strong>Conversation flows</strong> — follow-up steps validate
+              answers such as order numbers and reuse them in later replies,
+              with per-sender sessions that expire on their own.
+            </li>
+            <li>
+              <strong>Order lookup</strong> — optionally fetches an order from
+              your API with the captured number and fills the reply from its
+              fields, with a not-found reply when it comes back empty.
+            </li>
+            <li>
+              <strong>Languages</strong> — optionally answers in the
+              customer&apos;s Messenger profile locale or the language of their
+              message, falling back to your default language.
+            </li>
+            <li>
+              <strong>AI fallback</strong> — optionally lets an OpenAI-compatible
+              model answer messages no route matches, with the default reply as
+              the safety net.
+            </li>
+            <li>
+              <strong>Conversation log</strong> — optionally records each
+              message, the matched phrase and the reply in Postgres, a Google
+              Sheet or your own endpoint.
             </li>
             <li>
-              <strong>Keyword routing</strong> — runs lightweight NLP over your
-              phrases so you can trigger different responses or escalate paths.
+              <strong>Human handover</strong> — handover routes pass the thread
+              to your inbox and keep the bot quiet until control comes back.
             </li>
             <li>
               <strong>Graph API reply</strong> — sends a compliant message using the
               Page access token you provide.
             </li>
             <li>
-              <strong>Safe fallback</strong> — always acknowledges events so Meta
-              never retries the webhook unnecessarily.
+              <strong>Multi-channel</strong> — Messenger, Instagram Direct and
+              WhatsApp events share one webhook and one set of routes, and each
+              reply goes out in its channel&apos;s format.
+            </li>
+            <li>
+              <strong>Batch-safe routing</strong> — replies to every messaging
+              event Meta batches into one delivery, then answers the webhook once.
+            </li>
+            <li>
+              <strong>Safe fallback</strong> — acknowledges events before
+              replying, so a failing Send API call never makes Meta retry the
+              webhook.
+            </li>
+            <li>
+              <strong>Send retries</strong> — retries throttled or failed sends
+              with a doubling delay and raises an alert when a reply cannot be
+              delivered.
             </li>
             <li>
               <strong>Import-ready JSON</strong> — plug this into n8n with
-              <em> Import from File</em> and update credentials as needed.
+              <em> Import from File</em> and update credentials as needed. Legacy
+              Function nodes or Code nodes, to match your n8n version.
             </li>
           </ul>
-          <div className="status-pill warning">
-            <span role="img" aria-label="lock">
-              🔐
-            </span>
-            Swap sensitive tokens for n8n credentials after import
-          </div>
+          {form.secretStorage === "credentials" ? (
+            <div className="status-pill">
+              <span role="img" aria-label="lock">
+                🔐
+              </span>
+              No secrets in the export — tokens come from n8n
+            </div>
+          ) : (
+            <div className="status-pill warning">
+              <span role="img" aria-label="lock">
+                🔐
+              </span>
+              Swap sensitive tokens for n8n credentials after import
+            </div>
+          )}
         </div>
       </section>
     </main>
@@ -0,0 +1,188 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_FORM,
+  createBuilderConfig,
+  generateWorkflowJson,
+  stringifyBuilderConfig,
+  type FormState,
+  type KeywordRoute,
+  type WorkflowIdentity
+} from "../lib/workflow";
+
+const CLI = join(__dirname, "build-workflow.ts");
+const directory = mkdtempSync(join(tmpdir(), "build-workflow-"));
+
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+const identity: WorkflowIdentity = {
+  seed: "3f1c0b6e-build-workflow-test",
+  createdAt: "2024-05-01T12:00:00.000Z"
+};
+
+const secrets = {
+  verifyToken: "cli-verify-token",
+  pageAccessToken: "EAAcliPageToken",
+  whatsappAccessToken: "cli-whatsapp-token"
+};
+
+const form: FormState = {
+  ...DEFAULT_FORM,
+  ...secrets,
+  automationName: "CLI Concierge",
+  channels: ["messenger", "whatsapp"],
+  webhookPath: "facebook/cli-concierge",
+  n8nTarget: "current"
+};
+
+const routes: KeywordRoute[] = [
+  {
+    phrases: ["hours", "open"],
+    reply: "We're open 9–5, Monday to Friday.",
+    matchMode: "contains",
+    priority: 0,
+    action: "reply"
+  },
+  {
+    phrases: ["agent"],
+    reply: "Connecting you with a teammate.",
+    matchMode: "word",
+    priority: 1,
+    action: "handover"
+  }
+];
+
+function writeTemp(name: string, contents: string) {
+  const path = join(directory, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+function writeConfig(
+  name: string,
+  config: FormState,
+  format: "json" | "yaml"
+) {
+  return writeTemp(
+    name,
+    stringifyBuilderConfig(createBuilderConfig(config, routes, identity), format)
+  );
+}
+
+function runCli(...args: string[]) {
+  return spawnSync(process.execPath, ["--import", "tsx", CLI, ...args], {
+    encoding: "utf8"
+  });
+}
+
+describe("build-workflow", () => {
+  const expected = generateWorkflowJson(form, routes, identity);
+  const secretsPath = writeTemp("secrets.json", JSON.stringify(secrets));
+
+  it.each(["json", "yaml"] as const)(
+    "writes the builder's workflow byte for byte from a %s config",
+    (format) => {
+      const configPath = writeConfig(`config.${format}`, form, format);
+      const outputPath = join(directory, `workflow-${format}.json`);
+
+      const toFile = runCli(
+        configPath,
+        "--secrets",
+        secretsPath,
+        "-o",
+        outputPath
+      );
+      expect(toFile.stderr).toBe("");
+      expect(toFile.status).toBe(0);
+      expect(readFileSync(outputPath, "utf8")).toBe(expected);
+
+      const toStdout = runCli(configPath, "--secrets", secretsPath);
+      expect(toStdout.status).toBe(0);
+      expect(toStdout.stdout).toBe(expected);
+    }
+  );
+
+  it("rejects a secrets file that is not JSON", () => {
+    const result = runCli(
+      writeConfig("malformed-secrets.config.json", form, "json"),
+      "--secrets",
+      writeTemp("malformed-secrets.json", "{ verifyToken: ")
+    );
+    expect(result.status).toBe(1);
+    expect(result.stderr).toMatch(
+      /^build-workflow: .* is not a JSON object of secrets\.$/m
+    );
+  });
+
+  it("refuses settings the builder would ignore", () => {
+    const config = createBuilderConfig(form, routes, identity);
+    const result = runCli(
+      writeTemp(
+        "unknown-target.config.json",
+        JSON.stringify({ ...config, form: { ...config.form, n8nTarget: "1.x" } })
+      ),
+      "--secrets",
+      secretsPath
+    );
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain(
+      'Ignored form.n8nTarget: expected one of "legacy", "current".'
+    );
+  });
+
+  it("refuses to build inline secrets without --secrets", () => {
+    const result = runCli(writeConfig("inline.config.json", form, "json"));
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain(
+      "verifyToken, pageAccessToken, whatsappAccessToken are missing"
+    );
+  });
+
+  it("refuses to drop a secret the builder had set", () => {
+    const configPath = writeConfig(
+      "app-secret.config.json",
+      { ...form, appSecret: "cli-app-secret", aiApiKey: "sk-cli" },
+      "json"
+    );
+    const result = runCli(configPath, "--secrets", secretsPath);
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain("appSecret, aiApiKey are missing");
+
+    const withSecrets = runCli(
+      configPath,
+      "--secrets",
+      writeTemp(
+        "all-secrets.json",
+        JSON.stringify({
+          ...secrets,
+          appSecret: "cli-app-secret",
+          aiApiKey: "sk-cli"
+        })
+      )
+    );
+    expect(withSecrets.status).toBe(0);
+    expect(withSecrets.stdout).toContain("Verify Signature");
+  });
+
+  it("builds credential-based configs without a secrets file", () => {
+    const credentialsForm: FormState = {
+      ...DEFAULT_FORM,
+      automationName: form.automationName,
+      channels: form.channels,
+      secretStorage: "credentials"
+    };
+    const result = runCli(
+      writeConfig("credentials.config.json", credentialsForm, "json")
+    );
+    expect(result.status).toBe(0);
+    expect(result.stdout).toBe(
+      generateWorkflowJson(credentialsForm, routes, identity)
+    );
+  });
+});
@@ -0,0 +1,160 @@
+#!/usr/bin/env -S npx tsx
+// Builds the n8n workflow for a config exported from the builder, so CI can
+// regenerate committed workflows without the UI:
+//
+//   bin/build-workflow.ts config.json -o workflow.json
+//
+// Configs never carry secrets. Pass --secrets with a JSON file using the
+// builder's field names (verifyToken, pageAccessToken, ...) or generate with
+// n8n credentials; a config that keeps secrets inline fails without them,
+// and without any secret the config lists as set in the builder.
+// Without -o the workflow is written to stdout.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+  DEFAULT_FORM,
+  PLACEHOLDER_PAGE_TOKEN,
+  SECRET_FIELDS,
+  generateWorkflowJson,
+  importBuilderConfig,
+  isRouteComplete,
+  safeJsonParse,
+  sanitizeWebhookPath,
+  type FormState,
+  type WorkflowIdentity
+} from "../lib/workflow";
+
+const USAGE =
+  "Usage: build-workflow <config.json|config.yaml> [-o workflow.json] [--secrets secrets.json]";
+
+function fail(message: string): never {
+  process.stderr.write(`build-workflow: ${message}\n`);
+  process.exit(1);
+}
+
+function readFile(path: string) {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (error) {
+    return fail(
+      `cannot read ${path} (${error instanceof Error ? error.message : String(error)}).`
+    );
+  }
+}
+
+function parseArguments(args: string[]) {
+  const options: { config?: string; output?: string; secrets?: string } = {};
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "-h" || arg === "--help") {
+      process.stdout.write(`${USAGE}\n`);
+      process.exit(0);
+    } else if (arg === "-o" || arg === "--output") {
+      options.output = args[++index] ?? fail(`${arg} needs a file name.`);
+    } else if (arg === "--secrets") {
+      options.secrets = args[++index] ?? fail(`${arg} needs a file name.`);
+    } else if (arg.startsWith("-") || options.config) {
+      fail(`unexpected argument "${arg}".\n${USAGE}`);
+    } else {
+      options.config = arg;
+    }
+  }
+  return options;
+}
+
+// Only the secret fields are taken, so a secrets file cannot change the
+// workflow in ways the committed config does not show.
+function readSecrets(path: string): Partial<FormState> {
+  const secrets = safeJsonParse(readFile(path)) as
+    | Record<string, unknown>
+    | undefined;
+  if (!secrets || typeof secrets !== "object" || Array.isArray(secrets)) {
+    return fail(`${path} is not a JSON object of secrets.`);
+  }
+  return Object.fromEntries(
+    SECRET_FIELDS.flatMap((field) =>
+      typeof secrets[field] === "string" ? [[field, secrets[field]]] : []
+    )
+  );
+}
+
+// Inline secrets are written into the workflow itself, so building without
+// them would ship the builder's sample tokens to production.
+function findSampleSecrets(form: FormState) {
+  const sendsToMessenger = form.channels.some(
+    (channel) => channel !== "whatsapp"
+  );
+  return [
+    (!form.verifyToken.trim() ||
+      form.verifyToken === DEFAULT_FORM.verifyToken) &&
+      "verifyToken",
+    sendsToMessenger &&
+      (!form.pageAccessToken.trim() ||
+        form.pageAccessToken === PLACEHOLDER_PAGE_TOKEN) &&
+      "pageAccessToken",
+    form.channels.includes("whatsapp") &&
+      !form.whatsappAccessToken.trim() &&
+      "whatsappAccessToken"
+  ].filter((field): field is string => Boolean(field));
+}
+
+const options = parseArguments(process.argv.slice(2));
+if (!options.config) {
+  fail(`no config file given.\n${USAGE}`);
+}
+
+const imported = importBuilderConfig(readFile(options.config));
+if (!imported) {
+  fail(`${options.config} is not a builder config.`);
+}
+if (!imported.keywordRoutes) {
+  fail(imported.issues.join(" "));
+}
+// The builder falls back to defaults for settings it cannot read, which in
+// CI would quietly build a different workflow than the config describes.
+const ignored = imported.issues.filter((issue) => issue.startsWith("Ignored "));
+if (ignored.length) {
+  fail(ignored.join(" "));
+}
+
+// The same merge as importing the config into a fresh builder project.
+const secrets = options.secrets ? readSecrets(options.secrets) : {};
+const form: FormState = { ...DEFAULT_FORM, ...imported.form, ...secrets };
+if (form.secretStorage === "inline") {
+  // A secret the builder had, such as the app secret, otherwise drops out of
+  // the workflow silently, along with the check it enables.
+  const required = new Set<string>([
+    ...findSampleSecrets(form),
+    ...(imported.secrets ?? []).filter(
+      (field) => !String(secrets[field] ?? "").trim()
+    )
+  ]);
+  const missing = SECRET_FIELDS.filter((field) => required.has(field));
+  if (missing.length) {
+    fail(
+      `the config keeps secrets inline, but ${missing.join(", ")} ${
+        missing.length === 1 ? "is" : "are"
+      } missing or still the builder's sample value. Pass them with --secrets, or export the config with n8n credentials.`
+    );
+  }
+}
+const identity: WorkflowIdentity = imported.identity ?? {
+  seed: sanitizeWebhookPath(form.automationName) || "workflow",
+  createdAt: new Date(0).toISOString()
+};
+if (!imported.identity) {
+  process.stderr.write(
+    "build-workflow: the config has no project ids, so node ids will differ from the builder's export. Export the config again from the builder to include them.\n"
+  );
+}
+
+const workflowJson = generateWorkflowJson(
+  form,
+  imported.keywordRoutes.filter(isRouteComplete),
+  identity
+);
+if (options.output) {
+  writeFileSync(options.output, workflowJson);
+} else {
+  process.stdout.write(workflowJson);
+}
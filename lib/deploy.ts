@@ -0,0 +1,375 @@
+// Creates or updates a generated workflow through n8n's public REST API
+// (/api/v1/workflows). Kept free of Next.js so the API route stays a thin
+// wrapper around it.
+
+import { lookup } from "node:dns/promises";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent, fetch } from "undici";
+import { safeJsonParse } from "./workflow";
+
+export type DeployRequest = {
+  baseUrl: string;
+  apiKey: string;
+  workflowJson: string;
+  // Updates this workflow instead of looking one up by name.
+  workflowId?: string;
+  activate: boolean;
+  // Connects only to these addresses, as resolved by resolveDeployTarget,
+  // instead of asking DNS again.
+  addresses?: string[];
+};
+
+export type DeployResult =
+  | {
+      ok: true;
+      workflowId: string;
+      created: boolean;
+      active: boolean;
+      webhookUrl: string | null;
+    }
+  | { ok: false; error: string };
+
+type N8nWorkflow = {
+  id: string;
+  name: string;
+  active?: boolean;
+};
+
+type GeneratedWorkflow = {
+  name?: unknown;
+  nodes?: { type?: string; parameters?: { path?: unknown } }[];
+  connections?: unknown;
+  settings?: unknown;
+  staticData?: unknown;
+};
+
+export type DeployTarget =
+  | { ok: true; baseUrl: string; addresses?: string[] }
+  | { ok: false; error: string };
+
+const N8N_REQUEST_TIMEOUT_MS = 15000;
+
+// n8n answers 404 for unknown ids, which the lookup by id reports itself.
+class N8nRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+type N8nConnection = Pick<DeployRequest, "baseUrl" | "apiKey"> & {
+  dispatcher?: Agent;
+};
+
+async function callN8n<T>(
+  request: N8nConnection,
+  path: string,
+  method: "GET" | "POST" | "PUT" = "GET",
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(`${request.baseUrl}/api/v1${path}`, {
+    method,
+    headers: {
+      Accept: "application/json",
+      "X-N8N-API-KEY": request.apiKey,
+      ...(body !== undefined && { "Content-Type": "application/json" })
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    // A redirect could point at an address resolveDeployTarget refused.
+    redirect: "manual",
+    signal: AbortSignal.timeout(N8N_REQUEST_TIMEOUT_MS),
+    dispatcher: request.dispatcher
+  });
+  if (response.status >= 300 && response.status < 400) {
+    throw new N8nRequestError(
+      `${method} /api/v1${path} was redirected; enter the n8n base URL it redirects to.`,
+      response.status
+    );
+  }
+  const text = await response.text();
+  const data = text ? safeJsonParse(text) : undefined;
+  if (!response.ok) {
+    const message = (data as { message?: unknown } | undefined)?.message;
+    throw new N8nRequestError(
+      `${method} /api/v1${path} failed with ${response.status}${typeof message === "string" ? `: ${message}` : "."}`,
+      response.status
+    );
+  }
+  return data as T;
+}
+
+async function findWorkflow(
+  request: N8nConnection & Pick<DeployRequest, "workflowId">,
+  name: string
+): Promise<N8nWorkflow | null> {
+  const workflowId = request.workflowId?.trim();
+  if (workflowId) {
+    try {
+      return await callN8n<N8nWorkflow>(
+        request,
+        `/workflows/${encodeURIComponent(workflowId)}`
+      );
+    } catch (error) {
+      // A wrong id must not quietly create a second copy.
+      throw error instanceof N8nRequestError && error.status === 404
+        ? new Error(`n8n has no workflow with ID ${workflowId}.`)
+        : error;
+    }
+  }
+  let cursor: string | undefined;
+  do {
+    const page = await callN8n<{ data?: N8nWorkflow[]; nextCursor?: string | null }>(
+      request,
+      `/workflows?limit=250${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`
+    );
+    const match = page.data?.find((workflow) => workflow.name === name);
+    if (match) {
+      return match;
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return null;
+}
+
+// The public API rejects read-only fields such as id, active and versionId.
+// Updates leave staticData alone so paused senders and open flow sessions
+// survive a redeploy.
+function toApiWorkflow(workflow: GeneratedWorkflow, created: boolean) {
+  return {
+    name: workflow.name,
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+    settings: workflow.settings ?? {},
+    ...(created && workflow.staticData ? { staticData: workflow.staticData } : {})
+  };
+}
+
+// n8n serves production webhooks under /webhook/ on its base URL, unless the
+// instance sets WEBHOOK_URL to a different public address.
+function buildWebhookUrl(baseUrl: string, workflow: GeneratedWorkflow) {
+  const path = workflow.nodes?.find(
+    (node) => node.type === "n8n-nodes-base.webhook"
+  )?.parameters?.path;
+  return typeof path === "string" && path
+    ? `${baseUrl}/webhook/${path.replace(/^\/+/, "")}`
+    : null;
+}
+
+// Splits an IPv6 address into its eight 16-bit words.
+function toIpv6Words(address: string) {
+  const hex = address.replace(
+    /(\d+)\.(\d+)\.(\d+)\.(\d+)$/,
+    (_, a, b, c, d) =>
+      `${((+a << 8) | +b).toString(16)}:${((+c << 8) | +d).toString(16)}`
+  );
+  const [head, tail] = hex.split("::");
+  const parse = (part: string) =>
+    part ? part.split(":").map((word) => parseInt(word, 16)) : [];
+  if (tail === undefined) {
+    return parse(head);
+  }
+  const start = parse(head);
+  const end = parse(tail);
+  return [
+    ...start,
+    ...Array<number>(8 - start.length - end.length).fill(0),
+    ...end
+  ];
+}
+
+// Reads IPv4 addresses, including the IPv6 forms that carry one:
+// IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d), NAT64
+// (64:ff9b::/96) and 6to4 (2002::/16), in either notation.
+function toIpv4(address: string) {
+  if (isIP(address) === 4) {
+    return address;
+  }
+  if (isIP(address) !== 6) {
+    return null;
+  }
+  const words = toIpv6Words(address);
+  const zero = (from: number, to: number) =>
+    words.slice(from, to).every((word) => word === 0);
+  const embedded =
+    words[0] === 0x2002
+      ? words.slice(1, 3)
+      : (zero(0, 5) && (words[5] === 0 || words[5] === 0xffff)) ||
+          (words[0] === 0x64 && words[1] === 0xff9b && zero(2, 6))
+        ? words.slice(6, 8)
+        : null;
+  return embedded
+    ? embedded.flatMap((word) => [word >> 8, word & 255]).join(".")
+    : null;
+}
+
+// Loopback, private, link-local (which covers cloud metadata services),
+// shared, multicast and reserved ranges.
+function isPublicAddress(address: string) {
+  const lower = address.toLowerCase();
+  const ipv4 = toIpv4(lower);
+  if (ipv4) {
+    const [a, b] = ipv4.split(".").map(Number);
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+  return !(
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) ||
+    /^fe[89ab]/.test(lower) ||
+    /^ff/.test(lower)
+  );
+}
+
+// The deploy route calls whatever base URL the page sends, so without this
+// it could reach services on the server's own network. With allowedHosts
+// (N8N_DEPLOY_ALLOWED_HOSTS on the server) only those hosts are called,
+// private ones included; otherwise only hosts with public addresses. An entry
+// without a port matches the host on any port.
+export async function resolveDeployTarget(
+  baseUrl: string,
+  allowedHosts: string[] = []
+): Promise<DeployTarget> {
+  const url = URL.canParse(baseUrl.trim()) ? new URL(baseUrl.trim()) : null;
+  if (!url || !/^https?:$/.test(url.protocol) || !url.hostname) {
+    return {
+      ok: false,
+      error: "Enter the n8n base URL, e.g. https://n8n.example.com."
+    };
+  }
+  if (url.username || url.password || url.search || url.hash) {
+    return {
+      ok: false,
+      error:
+        "The n8n base URL cannot hold credentials, a query or a fragment; pass the API key separately."
+    };
+  }
+  const target: DeployTarget = {
+    ok: true,
+    baseUrl: `${url.origin}${url.pathname.replace(/\/+$/, "")}`
+  };
+  if (allowedHosts.length) {
+    const hostname = url.hostname.toLowerCase();
+    const host = url.host.toLowerCase();
+    return allowedHosts.some((entry) => {
+      const allowed = entry.trim().toLowerCase();
+      return allowed === host || allowed === hostname;
+    })
+      ? target
+      : {
+          ok: false,
+          error: `${url.host} is not in this server's N8N_DEPLOY_ALLOWED_HOSTS.`
+        };
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  } catch {
+    return { ok: false, error: `Could not resolve ${url.hostname}.` };
+  }
+  return addresses.every(isPublicAddress)
+    ? { ...target, addresses }
+    : {
+        ok: false,
+        error: `${url.hostname} is a private or local address. Add it to N8N_DEPLOY_ALLOWED_HOSTS on the server to deploy there.`
+      };
+}
+
+// Answers every lookup with the checked addresses, so DNS that changes its
+// answer after resolveDeployTarget (rebinding) cannot redirect the calls.
+function pinLookup(addresses: string[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    const entries = addresses
+      .map((address) => ({ address, family: isIP(address) }))
+      .filter(({ family }) => !options.family || family === options.family);
+    if (!entries.length) {
+      callback(
+        Object.assign(new Error("No checked address for this family."), {
+          code: "ENOTFOUND"
+        }),
+        ""
+      );
+    } else if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+}
+
+// Expects a base URL and addresses checked by resolveDeployTarget.
+export async function deployWorkflow(
+  request: DeployRequest
+): Promise<DeployResult> {
+  const workflow = safeJsonParse(request.workflowJson) as
+    | GeneratedWorkflow
+    | undefined;
+  if (
+    !workflow ||
+    typeof workflow.name !== "string" ||
+    !Array.isArray(workflow.nodes)
+  ) {
+    return {
+      ok: false,
+      error: "The workflow JSON is not a generated n8n workflow."
+    };
+  }
+  const baseUrl = request.baseUrl.trim().replace(/\/+$/, "");
+  const dispatcher = request.addresses?.length
+    ? new Agent({ connect: { lookup: pinLookup(request.addresses) } })
+    : undefined;
+  const target = { ...request, baseUrl, dispatcher };
+  try {
+    const existing = await findWorkflow(target, workflow.name);
+    const saved = existing
+      ? await callN8n<N8nWorkflow>(
+          target,
+          `/workflows/${encodeURIComponent(existing.id)}`,
+          "PUT",
+          toApiWorkflow(workflow, false)
+        )
+      : await callN8n<N8nWorkflow>(
+          target,
+          "/workflows",
+          "POST",
+          toApiWorkflow(workflow, true)
+        );
+    let active = Boolean(saved.active);
+    if (request.activate && !active) {
+      await callN8n(
+        target,
+        `/workflows/${encodeURIComponent(saved.id)}/activate`,
+        "POST"
+      );
+      active = true;
+    }
+    return {
+      ok: true,
+      workflowId: saved.id,
+      created: !existing,
+      active,
+      webhookUrl: buildWebhookUrl(baseUrl, workflow)
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  } finally {
+    await dispatcher?.close();
+  }
+}
@@ -0,0 +1,233 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_FORM,
+  evaluateExpression,
+  generateWorkflowJson,
+  type FormState,
+  type KeywordRoute
+} from "./workflow";
+
+type WorkflowNode = {
+  name: string;
+  parameters: Record<string, unknown>;
+};
+
+type Item = Record<string, unknown>;
+
+// An order API with one order, an empty answer, an error status and one
+// order that never answers.
+const requests: { path: string; authorization?: string }[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const path = request.url ?? "/";
+    requests.push({ path, authorization: request.headers.authorization });
+    const id = decodeURIComponent(
+      new URL(path, "http://stub").pathname.replace(/^\/orders\//, "")
+    );
+    const send = (status: number, data: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(data));
+    };
+    if (id === "A/B 7") {
+      send(200, { status: "shipped", carrier: { name: "DHL" } });
+    } else if (id === "4242") {
+      send(200, []);
+    } else if (id !== "slow") {
+      send(404, { message: "Order not found" });
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(
+  () =>
+    new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    })
+);
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+const routes: KeywordRoute[] = [
+  {
+    phrases: ["status"],
+    reply: "Send me your order number.",
+    matchMode: "word",
+    priority: 0,
+    action: "reply",
+    awaiting: "order_status"
+  }
+];
+
+function buildForm(): FormState {
+  return {
+    ...DEFAULT_FORM,
+    n8nTarget: "current",
+    verifyToken: "lookup-verify-token",
+    pageAccessToken: "EAAlookupPageToken",
+    flows: {
+      ...DEFAULT_FORM.flows,
+      steps: [
+        {
+          id: "order_status",
+          variable: "order_number",
+          pattern: "",
+          reply:
+            "Order {{order_number}} is {{response.status}} with {{response.carrier.name}}.",
+          retryReply: "",
+          next: "",
+          lookup: true
+        }
+      ]
+    },
+    lookup: {
+      ...DEFAULT_FORM.lookup,
+      endpoint: `${baseUrl}/orders/{{order_number}}?ref={{ order_number }}`,
+      timeoutSeconds: 1
+    },
+    lookupAuthValue: "Bearer lookup-test"
+  };
+}
+
+function findNode(nodes: WorkflowNode[], name: string) {
+  const node = nodes.find((candidate) => candidate.name === name);
+  expect(node, name).toBeDefined();
+  return node!;
+}
+
+// Plays Look Up Order as n8n would with the full response and continue on
+// fail: error statuses and timeouts become an item with only an error.
+async function lookUpOrder(node: WorkflowNode, item: Item): Promise<Item> {
+  const { parameters } = node;
+  const options = parameters.options as { timeout: number };
+  const headers = Object.fromEntries(
+    (
+      parameters.headerParameters as {
+        parameters: { name: string; value: string }[];
+      }
+    ).parameters.map(({ name, value }) => [name, value])
+  );
+  try {
+    const response = await fetch(
+      String(evaluateExpression(String(parameters.url), item)),
+      { headers, signal: AbortSignal.timeout(options.timeout) }
+    );
+    const text = await response.text();
+    if (!response.ok) {
+      return { error: `Request failed with status code ${response.status}` };
+    }
+    return { body: JSON.parse(text), statusCode: response.status };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Runs the generated Normalize Event and Use Lookup Reply code for a sender
+// who asks for their order status and then answers with the order number.
+async function askForOrder(orderNumber: string) {
+  const { nodes } = JSON.parse(
+    generateWorkflowJson(buildForm(), routes, {
+      seed: "lookup-test",
+      createdAt: "2024-05-01T12:00:00.000Z"
+    })
+  ) as { nodes: WorkflowNode[] };
+  const normalizeEvent = new Function(
+    "items",
+    "$env",
+    "$getWorkflowStaticData",
+    String(findNode(nodes, "Normalize Event").parameters.jsCode)
+  );
+  const staticData = {};
+  const receive = (text: string) =>
+    (
+      normalizeEvent(
+        [
+          {
+            json: {
+              query: {},
+              body: {
+                object: "page",
+                entry: [
+                  {
+                    id: "PAGE_ID",
+                    time: Date.now(),
+                    messaging: [
+                      {
+                        sender: { id: "1234" },
+                        recipient: { id: "PAGE_ID" },
+                        timestamp: Date.now(),
+                        message: { mid: `m-${text}`, text }
+                      }
+                    ]
+                  }
+                ]
+              }
+            }
+          }
+        ],
+        {},
+        () => staticData
+      ) as { json: Item }[]
+    )[0].json;
+
+  expect(receive("status")).toMatchObject({ needsLookup: false });
+  const request = receive(orderNumber);
+  expect(request).toMatchObject({ needsLookup: true });
+  const response = await lookUpOrder(findNode(nodes, "Look Up Order"), request);
+  const useLookupReply = new Function(
+    "items",
+    "$items",
+    String(findNode(nodes, "Use Lookup Reply").parameters.jsCode)
+  );
+  const [reply] = useLookupReply([{ json: response }], (name: string) => {
+    expect(name).toBe("Needs Lookup?");
+    return [{ json: request }];
+  }) as { json: Item }[];
+  return { request, reply: reply.json };
+}
+
+const notFound = (orderNumber: string) =>
+  DEFAULT_FORM.lookup.notFoundReply.replace("{{order_number}}", orderNumber);
+
+describe("the order lookup", () => {
+  it("fills the reply from the order the API found", async () => {
+    const { request, reply } = await askForOrder("A/B 7");
+    expect(request.lookupUrl).toBe(
+      `${baseUrl}/orders/A%2FB%207?ref=A%2FB%207`
+    );
+    expect(requests).toEqual([
+      {
+        path: "/orders/A%2FB%207?ref=A%2FB%207",
+        authorization: "Bearer lookup-test"
+      }
+    ]);
+    expect(reply).toMatchObject({
+      lookupFound: true,
+      replyText: "Order A/B 7 is shipped with DHL.",
+      replyMessage: { text: "Order A/B 7 is shipped with DHL." }
+    });
+  });
+
+  it.each([
+    ["an empty answer", "4242"],
+    ["an error status", "9999"],
+    ["a request that times out", "slow"]
+  ])("sends the not-found reply for %s", async (_, orderNumber) => {
+    const { reply } = await askForOrder(orderNumber);
+    expect(requests).toHaveLength(1);
+    expect(reply).toMatchObject({
+      lookupFound: false,
+      replyText: notFound(orderNumber),
+      replyMessage: { text: notFound(orderNumber) }
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FORM,
+  SEND_PAYLOADS,
+  buildPayloadExpression,
+  createBuilderConfig,
+  evaluateExpression,
+  generateWorkflowJson,
+  importBuilderConfig,
+  toPhrasePattern,
+  type FormState,
+  type KeywordRoute,
+  type N8nTarget,
+  type WorkflowIdentity
+} from "./workflow";
+
+const identity: WorkflowIdentity = {
+  seed: "7d2e4c1a-workflow-snapshot",
+  createdAt: "2024-05-01T12:00:00.000Z"
+};
+
+const messengerForm: FormState = {
+  ...DEFAULT_FORM,
+  verifyToken: "snapshot-verify-token",
+  pageAccessToken: "EAAsnapshotPageToken"
+};
+
+const routes: KeywordRoute[] = [
+  {
+    phrases: ["hours", "opening times"],
+    reply: "We're open 9–5, Monday to Friday.",
+    matchMode: "contains",
+    priority: 0,
+    action: "reply"
+  },
+  {
+    phrases: ["agent", "human"],
+    reply: "I'm looping in a teammate.",
+    matchMode: "word",
+    priority: 10,
+    action: "handover"
+  }
+];
+
+// Every optional branch at once: signature check, business hours, AI
+// fallback, localization, flows with a lookup, rich replies, retries,
+// logging and alerts.
+const fullRoutes: KeywordRoute[] = [
+  ...routes,
+  {
+    phrases: ["status"],
+    reply: "Send me your order number.",
+    matchMode: "startsWith",
+    priority: 0,
+    action: "reply",
+    awaiting: "order_status",
+    richReply: {
+      type: "quickReplies",
+      options: [{ title: "I don't have it", payload: "NO_ORDER_NUMBER" }]
+    },
+    translations: {
+      fr: {
+        phrases: ["statut"],
+        reply: "Envoyez-moi votre numéro de commande."
+      }
+    }
+  },
+  {
+    phrases: ["^track\\s+#?(\\d+)$"],
+    reply: "Order #{{response.id}} is {{response.status}}.",
+    matchMode: "regex",
+    priority: 5,
+    action: "lookup"
+  },
+  {
+    phrases: ["menu"],
+    reply: "",
+    matchMode: "word",
+    priority: 0,
+    action: "reply",
+    richReply: {
+      type: "carousel",
+      cards: [
+        {
+          title: "Shoes",
+          subtitle: "New season",
+          imageUrl: "https://shop.example.com/shoes.jpg",
+          buttons: [
+            {
+              type: "web_url",
+              title: "Browse",
+              value: "https://shop.example.com/shoes"
+            },
+            { type: "postback", title: "Ask", value: "ASK_SHOES" }
+          ]
+        }
+      ]
+    }
+  }
+];
+
+const fullForm: FormState = {
+  ...messengerForm,
+  channels: ["messenger", "instagram", "whatsapp"],
+  whatsappAccessToken: "snapshot-whatsapp-token",
+  appSecret: "snapshot-app-secret",
+  schedule: { ...DEFAULT_FORM.schedule, enabled: true, holidays: "2024-12-25" },
+  aiFallback: { ...DEFAULT_FORM.aiFallback, enabled: true },
+  aiApiKey: "sk-snapshot",
+  logging: { ...DEFAULT_FORM.logging, sink: "postgres" },
+  errorHandling: {
+    ...DEFAULT_FORM.errorHandling,
+    alert: "email",
+    alertEmail: "ops@example.com",
+    alertFromEmail: "bot@example.com"
+  },
+  localization: { ...DEFAULT_FORM.localization, enabled: true },
+  flows: {
+    ...DEFAULT_FORM.flows,
+    steps: DEFAULT_FORM.flows.steps.map((step) =>
+      step.id === "order_status" ? { ...step, lookup: true } : step
+    )
+  },
+  lookup: {
+    ...DEFAULT_FORM.lookup,
+    endpoint: "https://shop.example.com/api/orders/{{order_number}}"
+  },
+  lookupAuthValue: "Bearer snapshot"
+};
+
+const cases: [string, FormState, KeywordRoute[]][] = [
+  ["Messenger only", messengerForm, routes],
+  [
+    "Messenger and WhatsApp",
+    {
+      ...messengerForm,
+      channels: ["messenger", "whatsapp"],
+      whatsappAccessToken: "snapshot-whatsapp-token"
+    },
+    routes
+  ],
+  ["every optional branch with inline secrets", fullForm, fullRoutes],
+  [
+    "every optional branch with n8n credentials",
+    {
+      ...fullForm,
+      secretStorage: "credentials",
+      appSecret: "",
+      appSecretEnv: "META_APP_SECRET",
+      schedule: { ...fullForm.schedule, afterHoursMode: "suffix" },
+      logging: {
+        ...DEFAULT_FORM.logging,
+        sink: "googleSheets",
+        sheetId: "1snapshotSheetId"
+      },
+      errorHandling: { ...fullForm.errorHandling, alert: "slack" },
+      slackWebhookUrl: "https://hooks.slack.com/services/T0/B0/snapshot",
+      localization: { ...fullForm.localization, detection: "text" }
+    },
+    fullRoutes
+  ],
+  [
+    "every optional branch with an HTTP log and an error workflow",
+    {
+      ...fullForm,
+      logging: {
+        ...DEFAULT_FORM.logging,
+        sink: "http",
+        httpUrl: "https://logs.example.com/messenger"
+      },
+      errorHandling: {
+        ...fullForm.errorHandling,
+        alert: "errorWorkflow",
+        errorWorkflowId: "42"
+      }
+    },
+    fullRoutes
+  ]
+];
+
+describe.each(["legacy", "current"] as N8nTarget[])(
+  "generateWorkflowJson for the %s target",
+  (n8nTarget) => {
+    it.each(cases)("matches the snapshot: %s", (_, form, keywordRoutes) => {
+      const workflowJson = generateWorkflowJson(
+        { ...form, n8nTarget },
+        keywordRoutes,
+        identity
+      );
+      expect(JSON.parse(workflowJson)).toMatchSnapshot();
+    });
+  }
+);
+
+describe.each(["legacy", "current"] as N8nTarget[])(
+  "the %s Verify Signature node",
+  (n8nTarget) => {
+    const appSecret = "signature-test-secret";
+    const { nodes } = JSON.parse(
+      generateWorkflowJson(
+        { ...messengerForm, appSecret, n8nTarget },
+        routes,
+        identity
+      )
+    ) as { nodes: { name: string; parameters: Record<string, string> }[] };
+    const { parameters } = nodes.find(
+      (node) => node.name === "Verify Signature"
+    )!;
+    const code = parameters.jsCode ?? parameters.functionCode;
+    const body = Buffer.from('{"object":"page","entry":[]}');
+
+    // Runs the node as n8n would: the Code node keeps the body in binary
+    // storage, the legacy Function node inline as base64.
+    const verify = async (signature: string) => {
+      const run = new Function(
+        "items",
+        "require",
+        `return (async () => {\n${code}\n}).call(this);`
+      );
+      const items = [
+        {
+          json: { headers: { "x-hub-signature-256": signature } },
+          binary: {
+            data:
+              n8nTarget === "current"
+                ? { id: "filesystem-v2:workflows/1/binary_data/1" }
+                : { data: body.toString("base64") }
+          }
+        }
+      ];
+      const helpers = {
+        getBinaryDataBuffer: async (index: number, property: string) => {
+          expect([index, property]).toEqual([0, "data"]);
+          return body;
+        }
+      };
+      const [result] = await run.call({ helpers }, items, require);
+      return result.json.signatureValid as boolean;
+    };
+    const signature = `sha256=${createHmac("sha256", appSecret).update(body).digest("hex")}`;
+
+    it("accepts the body signed with the app secret", async () => {
+      expect(await verify(signature)).toBe(true);
+    });
+
+    it.each([
+      ["a forged signature", `sha256=${"0".repeat(64)}`],
+      ["no signature", ""],
+      ["a non-ASCII header of the same length", `sha256=${"é".repeat(64)}`]
+    ])("rejects %s", async (_, header) => {
+      expect(await verify(header)).toBe(false);
+    });
+  }
+);
+
+describe("toPhrasePattern", () => {
+  it.each([
+    ["contains", "c++", "Do you sell C++ books?", true],
+    ["contains", "c++", "Do you sell C books?", false],
+    ["word", "hi", "Hi there", true],
+    ["word", "hi", "this is it", false],
+    ["word", "café", "un café, svp", true],
+    ["word", "café", "cafés", false],
+    ["startsWith", "track", "  Track #42", true],
+    ["startsWith", "track", "please track #42", false],
+    ["regex", "^track\\s+#?(\\d+)$", "track #42", true]
+  ] as const)("%s %j on %j is %s", (matchMode, phrase, text, expected) => {
+    expect(toPhrasePattern(matchMode, phrase).test(text)).toBe(expected);
+  });
+});
+
+// Replies end up inside {{ }} expressions, so these must survive the trip
+// through renderPayload and n8n's evaluation unchanged.
+const trickyTexts = [
+  `She said "hi" and it's 'fine'`,
+  "Ending early }} or starting {{ $json.senderId }} a new one",
+  "Line one\nLine two\r\n\ttabbed",
+  "Thanks 🎉👍🏽 — 𝒜𝓁𝓅𝒽𝒶",
+  "Backslash \\ and \\u007d and </script>"
+];
+
+describe("buildPayloadExpression", () => {
+  it.each(trickyTexts)("sends a Messenger reply of %j as is", (text) => {
+    const body = evaluateExpression(
+      buildPayloadExpression(SEND_PAYLOADS.messenger),
+      { senderId: "1234", replyMessage: { text } }
+    );
+    expect(JSON.parse(body as string)).toEqual({
+      messaging_type: "RESPONSE",
+      recipient: { id: "1234" },
+      message: { text }
+    });
+  });
+
+  it.each(trickyTexts)("sends a WhatsApp reply of %j as is", (text) => {
+    const body = evaluateExpression(
+      buildPayloadExpression(SEND_PAYLOADS.whatsapp),
+      {
+        senderId: "15550001111",
+        replyMessage: { type: "text", text: { body: text } }
+      }
+    );
+    expect(JSON.parse(body as string)).toEqual({
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to: "15550001111",
+      type: "text",
+      text: { body: text }
+    });
+  });
+
+  it.each(trickyTexts)("keeps the literal %j inside one expression", (text) => {
+    const expression = buildPayloadExpression({
+      note: text,
+      "odd key": { $json: "nested.key-with-dash" },
+      list: [text, { $json: "nested.key-with-dash" }]
+    });
+    expect(expression.indexOf("}}")).toBe(expression.length - 2);
+    const body = evaluateExpression(expression, {
+      nested: { "key-with-dash": text }
+    });
+    expect(JSON.parse(body as string)).toEqual({
+      note: text,
+      "odd key": text,
+      list: [text, text]
+    });
+  });
+});
+
+describe("importBuilderConfig", () => {
+  const configWith = (changes: Record<string, unknown>) =>
+    JSON.stringify({ ...createBuilderConfig(DEFAULT_FORM, routes), ...changes });
+
+  it.each([0, -1, 1.5, "1", null])(
+    "refuses the schema version %j",
+    (version) => {
+      const result = importBuilderConfig(configWith({ version }));
+      expect(result).toMatchObject({ form: {}, keywordRoutes: null });
+      expect(result?.issues[0]).toContain("no valid schema version");
+    }
+  );
+
+  it("reads a config without a version as version 1", () => {
+    const { version, ...config } = createBuilderConfig(DEFAULT_FORM, routes);
+    expect(version).toBe(1);
+    expect(importBuilderConfig(JSON.stringify(config))?.keywordRoutes).toEqual(
+      routes
+    );
+  });
+
+  it("drops option values the builder does not know", () => {
+    const result = importBuilderConfig(
+      configWith({
+        form: {
+          n8nTarget: "1.x",
+          secretStorage: "vault",
+          channels: ["telegram"],
+          logging: { sink: "kafka" },
+          errorHandling: { alert: "pager" },
+          schedule: { afterHoursMode: "append" },
+          localization: { detection: "ip" }
+        }
+      })
+    );
+    expect(result?.form).toEqual({
+      logging: DEFAULT_FORM.logging,
+      errorHandling: DEFAULT_FORM.errorHandling,
+      schedule: DEFAULT_FORM.schedule,
+      localization: DEFAULT_FORM.localization
+    });
+    expect(result?.issues).toEqual(
+      expect.arrayContaining([
+        'Ignored form.n8nTarget: expected one of "legacy", "current".',
+        'Ignored form.secretStorage: expected one of "inline", "credentials".',
+        'Ignored form.channels[0]: expected one of "messenger", "instagram", "whatsapp".',
+        "Ignored form.channels: expected at least one channel.",
+        'Ignored form.logging.sink: expected one of "off", "postgres", "googleSheets", "http".',
+        'Ignored form.errorHandling.alert: expected one of "none", "email", "slack", "errorWorkflow".',
+        'Ignored form.schedule.afterHoursMode: expected one of "replace", "suffix".',
+        'Ignored form.localization.detection: expected one of "profile", "text".'
+      ])
+    );
+    expect(() =>
+      generateWorkflowJson({ ...DEFAULT_FORM, ...result?.form }, routes, identity)
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,3708 @@
+// Workflow generation without React or browser APIs, shared by the builder
+// page and the build-workflow CLI.
+
+export type MatchMode = "contains" | "word" | "startsWith" | "regex";
+
+export type RouteAction = "reply" | "handover" | "lookup";
+
+export type ReplyButton = {
+  type: "postback" | "web_url";
+  title: string;
+  // The postback payload or the URL, depending on the button type.
+  value: string;
+};
+
+type QuickReplyOption = {
+  title: string;
+  payload: string;
+};
+
+export type CarouselCard = {
+  title: string;
+  subtitle: string;
+  imageUrl: string;
+  buttons: ReplyButton[];
+};
+
+export type RichReply =
+  | { type: "quickReplies"; options: QuickReplyOption[] }
+  | { type: "buttons"; buttons: ReplyButton[] }
+  | { type: "carousel"; cards: CarouselCard[] };
+
+export type KeywordRoute = {
+  phrases: string[];
+  reply: string;
+  matchMode: MatchMode;
+  priority: number;
+  action: RouteAction;
+  richReply?: RichReply;
+  // Phrases and reply per extra locale, keyed by language code.
+  translations?: Record<string, RouteTranslation>;
+  // The flow step the sender's next message answers.
+  awaiting?: string;
+};
+
+type RouteTranslation = {
+  phrases: string[];
+  reply: string;
+};
+
+type RouteOptions = Pick<
+  KeywordRoute,
+  "matchMode" | "priority" | "action" | "awaiting"
+>;
+
+export type KeywordParseProblem = {
+  line: number;
+  text: string;
+  message: string;
+};
+
+export type SecretStorage = "inline" | "credentials";
+
+export type Channel = "messenger" | "instagram" | "whatsapp";
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export type DayHours = {
+  open: boolean;
+  from: string;
+  to: string;
+};
+
+export type BusinessSchedule = {
+  enabled: boolean;
+  days: Record<Weekday, DayHours>;
+  holidays: string;
+  afterHoursReply: string;
+  afterHoursMode: "replace" | "suffix";
+};
+
+export type AiFallback = {
+  enabled: boolean;
+  endpoint: string;
+  model: string;
+  systemPrompt: string;
+  timeoutSeconds: number;
+};
+
+export type LogSink = "off" | "postgres" | "googleSheets" | "http";
+
+export type ConversationLog = {
+  sink: LogSink;
+  postgresTable: string;
+  postgresCredential: string;
+  sheetId: string;
+  sheetRange: string;
+  sheetsCredential: string;
+  httpUrl: string;
+};
+
+// One question in a dialog. The accepted answer, or the pattern's first
+// group, is captured under the variable name for later {{name}} replies.
+export type FlowStep = {
+  id: string;
+  variable: string;
+  pattern: string;
+  reply: string;
+  retryReply: string;
+  // The step the reply asks for next; empty ends the flow.
+  next: string;
+  // Whether the reply is a lookup template filled from the order lookup.
+  lookup: boolean;
+};
+
+export type ConversationFlows = {
+  timeoutMinutes: number;
+  steps: FlowStep[];
+};
+
+// The endpoint takes {{variable}} placeholders from the sender's flow
+// session; lookup replies take {{response.field}} from the JSON it returns.
+export type OrderLookup = {
+  endpoint: string;
+  authHeader: string;
+  notFoundReply: string;
+  timeoutSeconds: number;
+};
+
+export type LocaleDetection = "profile" | "text";
+
+export type Localization = {
+  enabled: boolean;
+  defaultLocale: string;
+  locales: string[];
+  detection: LocaleDetection;
+  // Default replies for the extra locales; the default locale keeps
+  // FormState.defaultReply.
+  defaultReplies: Record<string, string>;
+};
+
+export type N8nTarget = "legacy" | "current";
+
+type NodeKind =
+  | "webhook"
+  | "code"
+  | "if"
+  | "merge"
+  | "respondToWebhook"
+  | "httpRequest"
+  | "wait"
+  | "postgres"
+  | "googleSheets"
+  | "emailSend"
+  | "stopAndError";
+
+type NodePlacement = {
+  id: string;
+  name: string;
+  position: [number, number];
+};
+
+type HttpRequestOptions = {
+  method?: "GET" | "POST";
+  url: string;
+  body?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  credential?: { type: "httpQueryAuth" | "httpHeaderAuth"; name: string };
+  timeout?: number;
+  continueOnFail?: boolean;
+  fullResponse?: boolean;
+};
+
+export type AlertTarget = "none" | "email" | "slack" | "errorWorkflow";
+
+export type ErrorHandling = {
+  maxAttempts: number;
+  retryDelaySeconds: number;
+  alert: AlertTarget;
+  alertEmail: string;
+  alertFromEmail: string;
+  smtpCredential: string;
+  errorWorkflowId: string;
+};
+
+export type FormState = {
+  automationName: string;
+  channels: Channel[];
+  verifyToken: string;
+  pageAccessToken: string;
+  whatsappAccessToken: string;
+  secretStorage: SecretStorage;
+  pageTokenCredential: string;
+  whatsappTokenCredential: string;
+  verifyTokenEnv: string;
+  appSecret: string;
+  appSecretEnv: string;
+  webhookPath: string;
+  defaultReply: string;
+  timezone: string;
+  schedule: BusinessSchedule;
+  handoverTargetAppId: string;
+  handoverPauseMinutes: number;
+  aiFallback: AiFallback;
+  aiApiKey: string;
+  aiKeyCredential: string;
+  logging: ConversationLog;
+  errorHandling: ErrorHandling;
+  slackWebhookUrl: string;
+  n8nTarget: N8nTarget;
+  localization: Localization;
+  flows: ConversationFlows;
+  lookup: OrderLookup;
+  lookupAuthValue: string;
+  lookupCredential: string;
+};
+
+// A Send API body: literals plus references to fields of the n8n item. An
+// object entry keyed "..." spreads the referenced field into the object.
+type PayloadField = { $json: string };
+
+export type PayloadValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PayloadField
+  | PayloadValue[]
+  | { [key: string]: PayloadValue };
+
+export type WorkflowImport = {
+  form: Partial<FormState>;
+  keywordRoutes: KeywordRoute[] | null;
+  issues: string[];
+  identity?: WorkflowIdentity;
+  secrets?: (keyof FormState)[];
+};
+
+export type WorkflowIdentity = {
+  seed: string;
+  createdAt: string;
+};
+
+export type BuilderConfig = {
+  schema: typeof CONFIG_SCHEMA;
+  version: number;
+  form: Partial<FormState>;
+  routes: KeywordRoute[];
+  // Config files carry the project's ids so build-workflow reproduces the
+  // builder's export byte for byte; share links leave them out.
+  identity?: WorkflowIdentity;
+  // The names, never the values, of the inline secrets the project had set,
+  // so build-workflow can refuse to build without them.
+  secrets?: (keyof FormState)[];
+};
+
+export const MATCH_MODE_LABELS: Record<MatchMode, string> = {
+  contains: "contains",
+  word: "whole word",
+  startsWith: "starts with",
+  regex: "regex"
+};
+
+// Meta's Page Inbox app, the usual secondary receiver for human agents.
+export const PAGE_INBOX_APP_ID = "263902037430900";
+
+export const DEFAULT_PAGE_TOKEN_CREDENTIAL = "Messenger Page Access Token";
+export const PLACEHOLDER_PAGE_TOKEN = "EAAGYourPageAccessToken";
+export const DEFAULT_WHATSAPP_TOKEN_CREDENTIAL = "WhatsApp Cloud API Token";
+export const DEFAULT_VERIFY_TOKEN_ENV = "MESSENGER_VERIFY_TOKEN";
+
+// Meta sends every channel to the same kind of webhook; the "object" field
+// of the body says which product the events came from.
+export const CHANNELS: { value: Channel; label: string; webhookObject: string }[] = [
+  { value: "messenger", label: "Messenger", webhookObject: "page" },
+  { value: "instagram", label: "Instagram Direct", webhookObject: "instagram" },
+  {
+    value: "whatsapp",
+    label: "WhatsApp Cloud API",
+    webhookObject: "whatsapp_business_account"
+  }
+];
+
+export const WEEKDAYS: { value: Weekday; label: string }[] = [
+  { value: "mon", label: "Monday" },
+  { value: "tue", label: "Tuesday" },
+  { value: "wed", label: "Wednesday" },
+  { value: "thu", label: "Thursday" },
+  { value: "fri", label: "Friday" },
+  { value: "sat", label: "Saturday" },
+  { value: "sun", label: "Sunday" }
+];
+
+const WEEKDAY_HOURS: DayHours = { open: true, from: "09:00", to: "17:00" };
+const WEEKEND_HOURS: DayHours = { open: false, from: "09:00", to: "17:00" };
+
+export const DEFAULT_SCHEDULE: BusinessSchedule = {
+  enabled: false,
+  days: {
+    mon: WEEKDAY_HOURS,
+    tue: WEEKDAY_HOURS,
+    wed: WEEKDAY_HOURS,
+    thu: WEEKDAY_HOURS,
+    fri: WEEKDAY_HOURS,
+    sat: WEEKEND_HOURS,
+    sun: WEEKEND_HOURS
+  },
+  holidays: "",
+  afterHoursReply:
+    "Thanks for your message! Our team is offline right now and will reply as soon as we are back.",
+  afterHoursMode: "replace"
+};
+
+export const DEFAULT_AI_FALLBACK: AiFallback = {
+  enabled: false,
+  endpoint: "https://api.openai.com/v1/chat/completions",
+  model: "gpt-4o-mini",
+  systemPrompt:
+    "You are the customer support assistant for this business. Answer in two or three friendly sentences. If you are not sure, ask the customer for details so a teammate can follow up.",
+  timeoutSeconds: 10
+};
+
+export const DEFAULT_AI_KEY_CREDENTIAL = "AI Fallback API Key";
+
+// Column order of every log sink and of the CSV the analytics view reads.
+export const LOG_COLUMNS = [
+  "logged_at",
+  "channel",
+  "sender_id",
+  "message",
+  "matched_phrase",
+  "reply",
+  "handover",
+  "after_hours",
+  "ai_reply",
+  "flow_step"
+];
+
+// Language detection counts these common words in the message; a locale
+// wins only when it scores strictly higher than every other one.
+export const LOCALES: { value: string; label: string; stopwords: string }[] = [
+  {
+    value: "en",
+    label: "English",
+    stopwords:
+      "the and is are my you your what where how when please with have can this not hello thanks"
+  },
+  {
+    value: "fr",
+    label: "French",
+    stopwords:
+      "le les et est mon ma mes vous votre je pas pour avec où quand comment bonjour merci commande"
+  },
+  {
+    value: "es",
+    label: "Spanish",
+    stopwords:
+      "el los las y es mi mis usted su yo no para con dónde cuándo cómo hola gracias pedido"
+  },
+  {
+    value: "de",
+    label: "German",
+    stopwords:
+      "der die das und ist mein meine sie ich nicht für mit wo wann wie hallo danke bestellung"
+  },
+  {
+    value: "it",
+    label: "Italian",
+    stopwords:
+      "il lo gli è mio mia lei io non per dove quando come ciao grazie ordine"
+  },
+  {
+    value: "pt",
+    label: "Portuguese",
+    stopwords:
+      "o os é meu minha você eu não com onde olá obrigado obrigada encomenda"
+  },
+  {
+    value: "nl",
+    label: "Dutch",
+    stopwords:
+      "het en mijn u jij ik niet voor met waar wanneer hoe bedankt bestelling"
+  }
+];
+
+export const DEFAULT_LOCALIZATION: Localization = {
+  enabled: false,
+  defaultLocale: "en",
+  locales: ["en", "fr", "es"],
+  detection: "profile",
+  defaultReplies: {
+    fr: "Merci de nous avoir écrit ! Je suis un assistant virtuel. Donnez-moi quelques détails et je vous orienterai vers la bonne personne.",
+    es: "¡Gracias por escribirnos! Soy un asistente virtual. Cuéntame un poco más y te pondré en contacto con la persona adecuada."
+  }
+};
+
+const NODE_VERSIONS: Record<N8nTarget, Record<NodeKind, number>> = {
+  legacy: {
+    webhook: 1,
+    code: 1,
+    if: 1,
+    merge: 2.1,
+    respondToWebhook: 1,
+    httpRequest: 1,
+    wait: 1,
+    postgres: 1,
+    googleSheets: 1,
+    emailSend: 1,
+    stopAndError: 1
+  },
+  current: {
+    webhook: 2,
+    code: 2,
+    if: 2,
+    merge: 3,
+    respondToWebhook: 1.1,
+    httpRequest: 4.2,
+    wait: 1.1,
+    postgres: 2.5,
+    googleSheets: 4.5,
+    emailSend: 2.1,
+    stopAndError: 1
+  }
+};
+
+export const SEND_PAYLOADS = {
+  messenger: {
+    messaging_type: "RESPONSE",
+    recipient: { id: { $json: "senderId" } },
+    message: { $json: "replyMessage" }
+  },
+  whatsapp: {
+    messaging_product: "whatsapp",
+    recipient_type: "individual",
+    to: { $json: "senderId" },
+    "...": { $json: "replyMessage" }
+  },
+  passThreadControl: {
+    recipient: { id: { $json: "senderId" } },
+    target_app_id: { $json: "handoverTargetAppId" },
+    metadata: "Handed over by the Messenger workflow"
+  }
+} satisfies Record<string, PayloadValue>;
+
+export const DEFAULT_ERROR_HANDLING: ErrorHandling = {
+  maxAttempts: 3,
+  retryDelaySeconds: 2,
+  alert: "none",
+  alertEmail: "",
+  alertFromEmail: "",
+  smtpCredential: "SMTP",
+  errorWorkflowId: ""
+};
+
+export const DEFAULT_SLACK_WEBHOOK_ENV = "SLACK_ALERT_WEBHOOK_URL";
+
+export const DEFAULT_LOGGING: ConversationLog = {
+  sink: "off",
+  postgresTable: "messenger_conversations",
+  postgresCredential: "Postgres",
+  sheetId: "",
+  sheetRange: "Sheet1!A:J",
+  sheetsCredential: "Google Sheets",
+  httpUrl: ""
+};
+
+const ORDER_NUMBER_PATTERN = "#?\\s*(\\d{4,})";
+
+const ORDER_NUMBER_RETRY =
+  "That doesn't look like an order number. Please send just the digits, e.g. #12345.";
+
+export const DEFAULT_FLOWS: ConversationFlows = {
+  timeoutMinutes: 30,
+  steps: [
+    {
+      id: "order_status",
+      variable: "order_number",
+      pattern: ORDER_NUMBER_PATTERN,
+      reply:
+        "Thanks! I've noted order #{{order_number}} and a teammate will follow up with its latest status shortly.",
+      retryReply: ORDER_NUMBER_RETRY,
+      next: "",
+      lookup: false
+    },
+    {
+      id: "refund_order",
+      variable: "order_number",
+      pattern: ORDER_NUMBER_PATTERN,
+      reply: "Got it, order #{{order_number}}. What is the reason for the refund?",
+      retryReply: ORDER_NUMBER_RETRY,
+      next: "refund_reason",
+      lookup: false
+    },
+    {
+      id: "refund_reason",
+      variable: "refund_reason",
+      pattern: "",
+      reply:
+        "Thank you. Our team will review the refund for order #{{order_number}} and get back to you within one business day.",
+      retryReply: "",
+      next: "",
+      lookup: false
+    }
+  ]
+};
+
+export const DEFAULT_LOOKUP: OrderLookup = {
+  endpoint: "",
+  authHeader: "Authorization",
+  notFoundReply:
+    "I couldn't find order #{{order_number}}. Please double-check the number, or type \"agent\" to reach a teammate.",
+  timeoutSeconds: 10
+};
+
+export const DEFAULT_LOOKUP_CREDENTIAL = "Order Lookup API";
+
+export const DEFAULT_FORM: FormState = {
+  automationName: "Messenger Concierge",
+  channels: ["messenger"],
+  verifyToken: "my-secure-verification-token",
+  pageAccessToken: PLACEHOLDER_PAGE_TOKEN,
+  whatsappAccessToken: "",
+  secretStorage: "inline",
+  pageTokenCredential: DEFAULT_PAGE_TOKEN_CREDENTIAL,
+  whatsappTokenCredential: DEFAULT_WHATSAPP_TOKEN_CREDENTIAL,
+  verifyTokenEnv: DEFAULT_VERIFY_TOKEN_ENV,
+  appSecret: "",
+  appSecretEnv: "",
+  webhookPath: `facebook/${sanitizeWebhookPath("Messenger Concierge")}`,
+  defaultReply:
+    "Thanks for reaching out! I'm a virtual assistant. Share a few details and I'll route you to the best next step (human support when needed).",
+  timezone: "America/New_York",
+  schedule: DEFAULT_SCHEDULE,
+  handoverTargetAppId: PAGE_INBOX_APP_ID,
+  handoverPauseMinutes: 30,
+  aiFallback: DEFAULT_AI_FALLBACK,
+  aiApiKey: "",
+  aiKeyCredential: DEFAULT_AI_KEY_CREDENTIAL,
+  logging: DEFAULT_LOGGING,
+  errorHandling: DEFAULT_ERROR_HANDLING,
+  slackWebhookUrl: "",
+  n8nTarget: "legacy",
+  localization: DEFAULT_LOCALIZATION,
+  flows: DEFAULT_FLOWS,
+  lookup: DEFAULT_LOOKUP,
+  lookupAuthValue: "",
+  lookupCredential: DEFAULT_LOOKUP_CREDENTIAL
+};
+
+export const SECRET_FIELDS: (keyof FormState)[] = [
+  "verifyToken",
+  "pageAccessToken",
+  "whatsappAccessToken",
+  "appSecret",
+  "aiApiKey",
+  "slackWebhookUrl",
+  "lookupAuthValue"
+];
+
+const CONFIG_SCHEMA = "messenger-n8n-builder/config";
+const CONFIG_VERSION = 1;
+
+// Upgrades a config from version N to N + 1. Add a step here whenever the
+// config shape changes so older files and shared links keep loading.
+const CONFIG_MIGRATIONS: Record<
+  number,
+  (config: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+export function sanitizeWebhookPath(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "");
+}
+
+function isMatchMode(value: string): value is MatchMode {
+  return Object.prototype.hasOwnProperty.call(MATCH_MODE_LABELS, value);
+}
+
+// Route options are an optional bracketed prefix, e.g.
+// "[word, priority=10] agent | human => reply". Regex routes keep "|" as
+// alternation instead of splitting it into synonyms.
+function parseRouteOptions(value: string): RouteOptions | null {
+  const options: RouteOptions = {
+    matchMode: "contains",
+    priority: 0,
+    action: "reply"
+  };
+  for (const token of value.split(",").map((part) => part.trim())) {
+    if (!token) {
+      continue;
+    }
+    const priorityMatch = token.match(/^priority\s*=\s*(-?\d+)$/);
+    const awaitMatch = token.match(/^await\s*=\s*(\w+)$/);
+    if (priorityMatch) {
+      options.priority = Number(priorityMatch[1]);
+    } else if (isMatchMode(token)) {
+      options.matchMode = token;
+    } else if (token === "handover" || token === "lookup") {
+      options.action = token;
+    } else if (awaitMatch) {
+      options.awaiting = awaitMatch[1];
+    } else {
+      return null;
+    }
+  }
+  return options;
+}
+
+export function sanitizeEnvName(name: string) {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9_]+/g, "_")
+    .replace(/(^_+|_+$)/g, "");
+}
+
+export function parseHolidayInput(value: string) {
+  const entries = value
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return {
+    dates: entries.filter((entry) => /^\d{4}-\d{2}-\d{2}$/.test(entry)),
+    invalid: entries.filter((entry) => !/^\d{4}-\d{2}-\d{2}$/.test(entry))
+  };
+}
+
+export function parseKeywordLines(value: string): {
+  routes: KeywordRoute[];
+  problems: KeywordParseProblem[];
+} {
+  const routes: KeywordRoute[] = [];
+  const problems: KeywordParseProblem[] = [];
+  // Translations attach to the route line right above them.
+  let lastRoute: KeywordRoute | null = null;
+  const splitPhrases = (matchMode: MatchMode, phraseText: string) =>
+    matchMode === "regex"
+      ? [phraseText].filter(Boolean)
+      : phraseText
+          .split("|")
+          .map((phrase) => phrase.trim())
+          .filter(Boolean);
+  value.split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+    // The raw line keeps a stray translation's indent when the table
+    // editor writes problems back.
+    const problem = (message: string) => {
+      problems.push({ line: index + 1, text: rawLine.trimEnd(), message });
+      lastRoute = null;
+    };
+    // Only the first "=>" separates phrases from the reply, so replies may
+    // contain "=>" themselves.
+    const separator = line.indexOf("=>");
+    if (separator === -1) {
+      problem('Missing "=>" between the phrases and the reply.');
+      return;
+    }
+    const translationMatch = rawLine.match(/^\s+([a-z]{2}):\s*(.*)$/);
+    if (translationMatch) {
+      const route: KeywordRoute | null = lastRoute;
+      if (!route) {
+        problem("A translation line must follow the route it translates.");
+        return;
+      }
+      const [, locale, translated] = translationMatch;
+      const translatedSeparator = translated.indexOf("=>");
+      route.translations = {
+        ...route.translations,
+        [locale]: {
+          phrases: splitPhrases(
+            route.matchMode,
+            translated.slice(0, translatedSeparator).trim()
+          ),
+          reply: translated.slice(translatedSeparator + 2).trim()
+        }
+      };
+      return;
+    }
+    const phrasePart = line.slice(0, separator).trim();
+    const optionsMatch = phrasePart.match(/^\[([^\]]*)\]\s*(.*)$/);
+    const options = parseRouteOptions(optionsMatch ? optionsMatch[1] : "");
+    if (!options) {
+      problem(
+        "Unknown route option. Use contains, word, startsWith, regex, priority=N, handover, lookup or await=step."
+      );
+      return;
+    }
+    const phraseText = optionsMatch ? optionsMatch[2] : phrasePart;
+    lastRoute = {
+      phrases: splitPhrases(options.matchMode, phraseText),
+      reply: line.slice(separator + 2).trim(),
+      ...options
+    };
+    routes.push(lastRoute);
+  });
+  return { routes, problems };
+}
+
+export function parseKeywordInput(value: string): KeywordRoute[] {
+  return parseKeywordLines(value).routes;
+}
+
+// Incomplete rows stay editable in the builder but are left out of the
+// generated workflow.
+export function isRouteComplete(route: KeywordRoute) {
+  return (
+    route.phrases.length > 0 &&
+    (Boolean(route.reply) || route.richReply?.type === "carousel")
+  );
+}
+
+export function formatKeywordInput(routes: KeywordRoute[]) {
+  return routes
+    .map((route) => {
+      const options = [
+        ...(route.matchMode === "contains" ? [] : [route.matchMode]),
+        ...(route.priority ? [`priority=${route.priority}`] : []),
+        ...(route.action === "reply" ? [] : [route.action]),
+        ...(route.awaiting ? [`await=${route.awaiting}`] : [])
+      ];
+      const prefix = options.length ? `[${options.join(", ")}] ` : "";
+      return [
+        `${prefix}${route.phrases.join(" | ")} => ${route.reply}`.trim(),
+        ...Object.entries(route.translations ?? {}).map(
+          ([locale, translation]) =>
+            `  ${locale}: ${translation.phrases.join(" | ")} => ${translation.reply}`
+        )
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+// FNV-1a over four salted lanes with a murmur finalizer. Only meant to turn
+// the same input into the same uuid-shaped id, not to be collision-proof.
+function hashToUuid(value: string) {
+  const hex = [1, 2, 3, 4]
+    .map((lane) => {
+      let hash = 0x811c9dc5;
+      for (const char of `${lane}:${value}`) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+      }
+      hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+      hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+      return ((hash ^ (hash >>> 16)) >>> 0).toString(16).padStart(8, "0");
+    })
+    .join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20)
+  ].join("-");
+}
+
+function deriveId(identity: WorkflowIdentity, label: string, content = "") {
+  return `${label}-${hashToUuid(`${identity.seed}:${label}:${content}`)}`;
+}
+
+// Secrets are either embedded as literals or read from n8n's $env, depending
+// on the secret handling the user picked.
+function secretExpression(form: FormState, value: string, envName: string) {
+  return form.secretStorage === "credentials"
+    ? `$env[${JSON.stringify(envName)}] ?? ""`
+    : JSON.stringify(value.trim());
+}
+
+export function isSignatureCheckEnabled(form: FormState) {
+  return form.secretStorage === "credentials"
+    ? Boolean(sanitizeEnvName(form.appSecretEnv))
+    : Boolean(form.appSecret.trim());
+}
+
+function buildSignatureCheckCode(form: FormState): string {
+  // The Code node stores binary data wherever n8n is configured to (memory,
+  // filesystem or S3), so it has to ask for the bytes; Function nodes on
+  // n8n 0.x hold them inline as base64.
+  const readRawBody =
+    form.n8nTarget === "current"
+      ? `item.binary?.data
+    ? await this.helpers.getBinaryDataBuffer(index, "data")
+    : null`
+      : `item.binary?.data?.data
+    ? Buffer.from(item.binary.data.data, "base64")
+    : null`;
+  return `
+const crypto = require("crypto");
+const appSecret = ${secretExpression(
+    form,
+    form.appSecret,
+    sanitizeEnvName(form.appSecretEnv)
+  )};
+
+return Promise.all(items.map(async (item, index) => {
+  const headers = item.json.headers ?? {};
+  const rawBody = ${readRawBody};
+  const received = Buffer.from(String(headers["x-hub-signature-256"] ?? ""));
+  const expected = Buffer.from(
+    rawBody
+      ? "sha256=" +
+          crypto.createHmac("sha256", appSecret).update(rawBody).digest("hex")
+      : ""
+  );
+  // Only POST requests reach this node; the verification handshake is an
+  // unsigned GET that goes straight to Normalize Event. Lengths are compared
+  // as bytes, since timingSafeEqual throws on buffers of different sizes.
+  const signatureValid =
+    Boolean(appSecret) &&
+    expected.length > 0 &&
+    received.length === expected.length &&
+    crypto.timingSafeEqual(received, expected);
+
+  return {
+    json: { ...item.json, signatureValid },
+    binary: item.binary
+  };
+}));
+  `.trim();
+}
+
+// Opening hours are compared as "HH:MM" strings in the workflow timezone;
+// closed days are emitted as null.
+function buildBusinessHoursCode(form: FormState): string {
+  if (!form.schedule.enabled) {
+    return "const isOpenNow = true;";
+  }
+  const businessHours = {
+    timezone: form.timezone,
+    days: Object.fromEntries(
+      WEEKDAYS.map(({ value }) => {
+        const day = form.schedule.days[value];
+        return [value, day.open ? [day.from, day.to] : null];
+      })
+    ),
+    holidays: parseHolidayInput(form.schedule.holidays).dates,
+    afterHoursReply: form.schedule.afterHoursReply.trim(),
+    afterHoursMode: form.schedule.afterHoursMode
+  };
+  return `
+const businessHours = ${JSON.stringify(businessHours)};
+const clock = Object.fromEntries(
+  new Intl.DateTimeFormat("en-US", {
+    timeZone: businessHours.timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  })
+    .formatToParts(new Date())
+    .map((part) => [part.type, part.value])
+);
+const today = businessHours.days[clock.weekday.toLowerCase()];
+const currentTime = clock.hour + ":" + clock.minute;
+const isOpenNow =
+  !businessHours.holidays.includes(clock.year + "-" + clock.month + "-" + clock.day) &&
+  Boolean(today) &&
+  currentTime >= today[0] &&
+  currentTime < today[1];
+  `.trim();
+}
+
+export function isLocalizationEnabled(form: FormState) {
+  return form.localization.enabled && form.localization.locales.length > 0;
+}
+
+export function looksUpProfileLocale(form: FormState) {
+  return (
+    isLocalizationEnabled(form) &&
+    form.localization.detection === "profile" &&
+    form.channels.includes("messenger")
+  );
+}
+
+// Locales compare on the language part only, so a "fr_CA" profile gets the
+// "fr" replies. Only the enabled locales' stopwords are embedded.
+function buildLocalizationCode(form: FormState): string {
+  if (!isLocalizationEnabled(form)) {
+    return "const localization = null;";
+  }
+  const { defaultLocale, locales, detection, defaultReplies } =
+    form.localization;
+  const localization = {
+    defaultLocale,
+    locales,
+    lookUpProfile: detection === "profile",
+    defaultReplies: Object.fromEntries(
+      locales
+        .filter((locale) => locale !== defaultLocale)
+        .map((locale) => [locale, (defaultReplies[locale] ?? "").trim()])
+        .filter(([, reply]) => reply)
+    ),
+    stopwords: Object.fromEntries(
+      LOCALES.filter((choice) => locales.includes(choice.value)).map(
+        (choice) => [choice.value, choice.stopwords.split(" ")]
+      )
+    )
+  };
+  return `
+const localization = ${JSON.stringify(localization)};
+const senderLocales = localization.lookUpProfile
+  ? (staticData.senderLocales = staticData.senderLocales ?? {})
+  : {};
+const toLocale = (value) => {
+  const language = String(value ?? "").toLowerCase().split(/[-_]/)[0];
+  return localization.locales.includes(language) ? language : null;
+};
+// Counts the stopwords of each locale in the message; ties detect nothing.
+const detectLocale = (text) => {
+  const words = text.toLowerCase().split(/[^\\p{L}]+/u);
+  const scores = Object.entries(localization.stopwords)
+    .map(([locale, stopwords]) => [
+      locale,
+      words.filter((word) => stopwords.includes(word)).length
+    ])
+    .sort((a, b) => b[1] - a[1]);
+  return scores[0]?.[1] > (scores[1]?.[1] ?? 0) ? scores[0][0] : null;
+};
+  `.trim();
+}
+
+// Flows are only embedded once a route actually starts one.
+export function usesFlows(form: FormState, keywordRoutes: KeywordRoute[]) {
+  return keywordRoutes.some((route) =>
+    form.flows.steps.some((step) => step.id && step.id === route.awaiting)
+  );
+}
+
+function buildFlowCode(form: FormState, keywordRoutes: KeywordRoute[]): string {
+  if (!usesFlows(form, keywordRoutes)) {
+    return `
+const flows = null;
+const fillTemplate = (text) => text;
+    `.trim();
+  }
+  const flows = {
+    timeoutMinutes: form.flows.timeoutMinutes,
+    steps: Object.fromEntries(
+      form.flows.steps
+        .filter((step) => step.id)
+        .map((step) => [
+          step.id,
+          {
+            variable: step.variable.trim() || step.id,
+            pattern: step.pattern.trim(),
+            reply: step.reply.trim(),
+            retryReply: step.retryReply.trim(),
+            next: step.next,
+            lookup: step.lookup
+          }
+        ])
+    )
+  };
+  return `
+const flows = ${JSON.stringify(flows)};
+// A session holds the step a sender is answering and the variables captured
+// so far. It ends after the timeout without messages.
+const sessions = (staticData.sessions = staticData.sessions ?? {});
+Object.keys(sessions).forEach((id) => {
+  if (sessions[id].expiresAt <= nowMs) {
+    delete sessions[id];
+  }
+});
+const readAnswer = (step, text) => {
+  if (!step.pattern) {
+    return text.trim();
+  }
+  try {
+    const match = text.match(new RegExp(step.pattern, "i"));
+    return match ? (match[1] ?? match[0]).trim() : null;
+  } catch (error) {
+    return null;
+  }
+};
+// Unknown variables render as nothing rather than as a raw placeholder.
+const fillTemplate = (text, variables) =>
+  text.replace(/\\{\\{\\s*(\\w+)\\s*\\}\\}/g, (placeholder, name) => variables[name] ?? "");
+  `.trim();
+}
+
+// Routes reply from the lookup through their action; flow steps only when
+// the flow is actually embedded.
+export function usesLookup(form: FormState, keywordRoutes: KeywordRoute[]) {
+  return (
+    Boolean(form.lookup.endpoint.trim()) &&
+    (keywordRoutes.some((route) => route.action === "lookup") ||
+      (usesFlows(form, keywordRoutes) &&
+        form.flows.steps.some((step) => step.lookup)))
+  );
+}
+
+// Runs after Look Up Order, which continues on failure and returns the full
+// response so an array body stays one item. A failed request or an empty
+// body counts as not found.
+export function buildLookupReplyCode(): string {
+  return `
+const requests = $items("Needs Lookup?", 0);
+const readPath = (value, path) =>
+  path.split(".").reduce((current, key) => current?.[key], value);
+return items.map((item, index) => {
+  const request = requests[index]?.json ?? {};
+  const body = Array.isArray(item.json.body) ? item.json.body[0] : item.json.body;
+  const found =
+    !item.json.error &&
+    body !== null &&
+    typeof body === "object" &&
+    Object.keys(body).length > 0;
+  const lookupReply = found
+    ? request.lookupTemplate.replace(
+        /\\{\\{\\s*response\\.([\\w.]+)\\s*\\}\\}/g,
+        (placeholder, path) => String(readPath(body, path) ?? "")
+      )
+    : request.lookupNotFound;
+  // Only the template part is swapped, so an after-hours suffix stays.
+  const replyText = request.replyText.replace(request.lookupTemplate, () => lookupReply);
+  return {
+    json: {
+      ...request,
+      replyText,
+      replyMessage:
+        request.channel === "whatsapp"
+          ? { type: "text", text: { body: replyText } }
+          : { text: replyText },
+      lookupFound: found
+    }
+  };
+});
+  `.trim();
+}
+
+// Runs after Look Up Locale, which continues on failure: a failed lookup is
+// stored as an empty locale so it is not repeated on every message.
+function buildRememberLocaleCode(): string {
+  return `
+const requests = $items("Needs Locale?", 0);
+const staticData = $getWorkflowStaticData("global");
+const senderLocales = (staticData.senderLocales = staticData.senderLocales ?? {});
+items.forEach((item, index) => {
+  const senderId = requests[index]?.json.senderId;
+  if (senderId) {
+    senderLocales[senderId] =
+      typeof item.json.locale === "string" ? item.json.locale : "";
+  }
+});
+return items;
+  `.trim();
+}
+
+export function isAiFallbackEnabled(form: FormState) {
+  return form.aiFallback.enabled && Boolean(form.aiFallback.endpoint.trim());
+}
+
+// The routes go along with the system prompt so the model stays consistent
+// with the answers the bot already gives.
+function buildAiRouteContext(keywordRoutes: KeywordRoute[]) {
+  return keywordRoutes.length
+    ? [
+        "Topics the bot already answers, and how:",
+        ...keywordRoutes.map(
+          (route) => `- ${route.phrases.join(" / ")}: ${route.reply}`
+        )
+      ].join("\n")
+    : "";
+}
+
+function buildAiFallbackCode(form: FormState, keywordRoutes: KeywordRoute[]) {
+  if (!isAiFallbackEnabled(form)) {
+    return "const aiFallback = null;";
+  }
+  return `const aiFallback = ${JSON.stringify({
+    model: form.aiFallback.model.trim(),
+    systemPrompt: form.aiFallback.systemPrompt.trim(),
+    routeContext: buildAiRouteContext(keywordRoutes)
+  })};`;
+}
+
+// Runs after Ask AI. The HTTP node continues on failure, so each output item
+// is either a chat completion or an error, paired by index with the request.
+function buildAiReplyCode(): string {
+  return `
+const requests = $items("Needs AI Reply?", 0);
+return items.map((item, index) => {
+  const request = requests[index]?.json ?? {};
+  const content = item.json.choices?.[0]?.message?.content;
+  const aiText = typeof content === "string" ? content.trim() : "";
+  const replyText = aiText || request.replyText;
+  return {
+    json: {
+      ...request,
+      replyText,
+      replyMessage: aiText
+        ? request.channel === "whatsapp"
+          ? { type: "text", text: { body: aiText } }
+          : { text: aiText }
+        : request.replyMessage,
+      aiReplied: Boolean(aiText),
+      aiError: aiText ? null : item.json.error?.message ?? item.json.error ?? "Empty AI reply"
+    }
+  };
+});
+  `.trim();
+}
+
+function isLoggingEnabled(form: FormState): boolean {
+  const { logging } = form;
+  switch (logging.sink) {
+    case "postgres":
+      return Boolean(logging.postgresTable.trim());
+    case "googleSheets":
+      return Boolean(logging.sheetId.trim());
+    case "http":
+      return Boolean(logging.httpUrl.trim());
+    default:
+      return false;
+  }
+}
+
+// Flattens each replied item into one row with the LOG_COLUMNS keys, so the
+// Postgres columns, the sheet header and the HTTP body all line up.
+function buildLogRowCode(): string {
+  return `
+const loggedAt = new Date().toISOString();
+return items.map((item) => ({
+  json: {
+    logged_at: loggedAt,
+    channel: item.json.channel ?? "messenger",
+    sender_id: item.json.senderId,
+    message: item.json.messageText ?? "",
+    matched_phrase: item.json.matchedPhrase ?? "",
+    reply: item.json.replyText ?? "",
+    handover: Boolean(item.json.handover),
+    after_hours: Boolean(item.json.afterHours),
+    ai_reply: Boolean(item.json.aiReplied),
+    flow_step: item.json.flowStep ?? ""
+  }
+}));
+  `.trim();
+}
+
+function isPayloadField(value: PayloadValue): value is PayloadField {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof value.$json === "string" &&
+    Object.keys(value).length === 1
+  );
+}
+
+function renderPayloadKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+// Renders the payload as JavaScript source for an n8n expression. String
+// literals go through JSON.stringify, and braces are escaped as well so a
+// literal "}}" cannot end the expression early.
+function renderPayload(value: PayloadValue): string {
+  if (isPayloadField(value)) {
+    return value.$json
+      .split(".")
+      .reduce(
+        (source, part) =>
+          /^[A-Za-z_$][\w$]*$/.test(part)
+            ? `${source}.${part}`
+            : `${source}[${JSON.stringify(part)}]`,
+        "$json"
+      );
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(renderPayload).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(([key, entry]) =>
+      key === "..."
+        ? `...${renderPayload(entry)}`
+        : `${renderPayloadKey(key)}: ${renderPayload(entry)}`
+    );
+    return entries.length ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value).replace(
+    /[{}]/g,
+    (brace) => `\\u${brace.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+}
+
+export function buildPayloadExpression(payload: PayloadValue) {
+  return `={{ JSON.stringify(${renderPayload(payload)}) }}`;
+}
+
+// Mirrors how n8n resolves a parameter: only values starting with "=" are
+// expressions, and each {{ }} segment runs against the item's $json. A value
+// that is a single segment keeps its type; anything else becomes a string.
+export function evaluateExpression(
+  value: string,
+  json: Record<string, unknown>
+): unknown {
+  if (!value.startsWith("=")) {
+    return value;
+  }
+  const parts = value
+    .slice(1)
+    .split(/(\{\{[\s\S]*?\}\})/)
+    .filter(Boolean);
+  const evaluate = (part: string) =>
+    new Function("$json", `return (${part.slice(2, -2)});`)(json);
+  if (parts.length === 1 && parts[0].startsWith("{{")) {
+    return evaluate(parts[0]);
+  }
+  return parts
+    .map((part) => (part.startsWith("{{") ? String(evaluate(part)) : part))
+    .join("");
+}
+
+function buildNode(
+  form: FormState,
+  kind: NodeKind,
+  node: NodePlacement,
+  parameters: Record<string, unknown>
+) {
+  return {
+    id: node.id,
+    name: node.name,
+    type:
+      kind === "code" && form.n8nTarget === "legacy"
+        ? "n8n-nodes-base.function"
+        : `n8n-nodes-base.${kind}`,
+    typeVersion: NODE_VERSIONS[form.n8nTarget][kind],
+    position: node.position,
+    parameters
+  };
+}
+
+// The setting was renamed when n8n added error outputs in 1.0.
+function continueOnFailSetting(form: FormState) {
+  return form.n8nTarget === "current"
+    ? { onError: "continueRegularOutput" }
+    : { continueOnFail: true };
+}
+
+function buildCodeNode(form: FormState, node: NodePlacement, code: string) {
+  return buildNode(
+    form,
+    "code",
+    node,
+    form.n8nTarget === "current" ? { jsCode: code } : { functionCode: code }
+  );
+}
+
+// Every IF in the graph tests one boolean field, or one string field
+// against a fixed value.
+function buildIfNode(
+  form: FormState,
+  node: NodePlacement,
+  condition: { value: string; equals?: string }
+) {
+  if (form.n8nTarget === "current") {
+    return buildNode(form, "if", node, {
+      conditions: {
+        options: {
+          caseSensitive: true,
+          leftValue: "",
+          typeValidation: "loose"
+        },
+        conditions: [
+          {
+            id: node.id,
+            leftValue: condition.value,
+            rightValue: condition.equals ?? "",
+            operator:
+              condition.equals === undefined
+                ? { type: "boolean", operation: "true", singleValue: true }
+                : { type: "string", operation: "equals" }
+          }
+        ],
+        combinator: "and"
+      },
+      options: {}
+    });
+  }
+  return buildNode(form, "if", node, {
+    conditions:
+      condition.equals === undefined
+        ? {
+            boolean: [
+              {
+                value1: condition.value,
+                operation: "isTrue"
+              }
+            ]
+          }
+        : {
+            string: [
+              {
+                value1: condition.value,
+                operation: "equal",
+                value2: condition.equals
+              }
+            ]
+          }
+  });
+}
+
+function buildMergeNode(
+  form: FormState,
+  node: NodePlacement,
+  mode: "append" | "combineByPosition"
+) {
+  if (form.n8nTarget === "current") {
+    return buildNode(
+      form,
+      "merge",
+      node,
+      mode === "append"
+        ? {}
+        : { mode: "combine", combineBy: "combineByPosition", options: {} }
+    );
+  }
+  return buildNode(
+    form,
+    "merge",
+    node,
+    mode === "append"
+      ? { mode: "append" }
+      : { mode: "combine", combinationMode: "mergeByPosition", options: {} }
+  );
+}
+
+function buildRespondNode(
+  form: FormState,
+  node: NodePlacement,
+  response: {
+    respondWith: "text" | "json";
+    responseBody: string;
+    responseCode: number | string;
+  }
+) {
+  const { responseCode, ...body } = response;
+  return buildNode(
+    form,
+    "respondToWebhook",
+    node,
+    form.n8nTarget === "current" ? { ...body, options: { responseCode } } : response
+  );
+}
+
+function toNameValueList(values: Record<string, string>) {
+  return {
+    parameters: Object.entries(values).map(([name, value]) => ({ name, value }))
+  };
+}
+
+// A JSON POST unless a method is given; only POSTs send a body. HTTP
+// Request v4 sets the Content-Type header itself and takes query and header
+// parameters as name/value lists.
+function buildHttpNode(
+  form: FormState,
+  node: NodePlacement,
+  request: HttpRequestOptions
+) {
+  const { credential, body } = request;
+  const method = request.method ?? "POST";
+  const headers = request.headers ?? {};
+  const parameters =
+    form.n8nTarget === "current"
+      ? {
+          method,
+          url: request.url,
+          authentication: credential ? "genericCredentialType" : "none",
+          ...(credential && { genericAuthType: credential.type }),
+          ...(request.query && {
+            sendQuery: true,
+            queryParameters: toNameValueList(request.query)
+          }),
+          ...(Object.keys(headers).length > 0 && {
+            sendHeaders: true,
+            headerParameters: toNameValueList(headers)
+          }),
+          ...(body !== undefined && {
+            sendBody: true,
+            specifyBody: "json",
+            jsonBody: body
+          }),
+          options: {
+            ...(request.fullResponse && {
+              response: { response: { fullResponse: true } }
+            }),
+            ...(request.timeout && { timeout: request.timeout })
+          }
+        }
+      : {
+          requestMethod: method,
+          url: request.url,
+          authentication: credential
+            ? credential.type === "httpQueryAuth"
+              ? "queryAuth"
+              : "headerAuth"
+            : "none",
+          jsonParameters: true,
+          options: {
+            fullResponse: request.fullResponse ?? false,
+            ...(request.timeout && { timeout: request.timeout })
+          },
+          ...(body !== undefined && { bodyParametersJson: body }),
+          ...(request.query && {
+            queryParametersJson: JSON.stringify(request.query)
+          }),
+          headerParametersJson: JSON.stringify({
+            "Content-Type": "application/json",
+            ...headers
+          })
+        };
+  return {
+    ...buildNode(form, "httpRequest", node, parameters),
+    ...(request.continueOnFail && continueOnFailSetting(form)),
+    // n8n resolves credentials by name on import when the ID is unknown.
+    ...(credential && {
+      credentials: {
+        [credential.type]: {
+          name: credential.name
+        }
+      }
+    })
+  };
+}
+
+function buildGraphRequestNode(
+  form: FormState,
+  node: NodePlacement &
+    Pick<HttpRequestOptions, "method" | "url" | "body" | "query" | "continueOnFail">,
+  token = {
+    value: form.pageAccessToken,
+    credential: form.pageTokenCredential.trim() || DEFAULT_PAGE_TOKEN_CREDENTIAL
+  }
+) {
+  return buildHttpNode(form, node, {
+    method: node.method,
+    url: node.url,
+    body: node.body,
+    ...(form.secretStorage === "credentials"
+      ? {
+          credential: { type: "httpQueryAuth", name: token.credential },
+          query: node.query
+        }
+      : { query: { ...node.query, access_token: token.value.trim() } }),
+    continueOnFail: node.continueOnFail
+  });
+}
+
+// A failing sink must never keep the reply or the webhook answer from going
+// out, so the node continues on failure.
+function buildLogSinkNode(form: FormState, node: NodePlacement) {
+  const { logging } = form;
+  const current = form.n8nTarget === "current";
+  if (logging.sink === "postgres") {
+    const table = logging.postgresTable.trim();
+    return {
+      ...buildNode(
+        form,
+        "postgres",
+        node,
+        current
+          ? {
+              operation: "insert",
+              schema: { __rl: true, mode: "name", value: "public" },
+              table: { __rl: true, mode: "name", value: table },
+              columns: { mappingMode: "autoMapInputData", value: {} },
+              options: {}
+            }
+          : {
+              operation: "insert",
+              schema: "public",
+              table,
+              columns: LOG_COLUMNS.join(",")
+            }
+      ),
+      ...continueOnFailSetting(form),
+      credentials: {
+        postgres: {
+          name:
+            logging.postgresCredential.trim() ||
+            DEFAULT_LOGGING.postgresCredential
+        }
+      }
+    };
+  }
+  if (logging.sink === "googleSheets") {
+    const range = logging.sheetRange.trim() || DEFAULT_LOGGING.sheetRange;
+    return {
+      ...buildNode(
+        form,
+        "googleSheets",
+        node,
+        current
+          ? {
+              operation: "append",
+              documentId: {
+                __rl: true,
+                mode: "id",
+                value: logging.sheetId.trim()
+              },
+              // Sheets v4 addresses a tab by name instead of an A1 range.
+              sheetName: {
+                __rl: true,
+                mode: "name",
+                value: range.split("!")[0]
+              },
+              columns: { mappingMode: "autoMapInputData", value: {} },
+              options: {}
+            }
+          : {
+              operation: "append",
+              authentication: "oAuth2",
+              sheetId: logging.sheetId.trim(),
+              range,
+              options: {}
+            }
+      ),
+      ...continueOnFailSetting(form),
+      credentials: {
+        googleSheetsOAuth2Api: {
+          name: logging.sheetsCredential.trim() || DEFAULT_LOGGING.sheetsCredential
+        }
+      }
+    };
+  }
+  return buildHttpNode(form, node, {
+    url: logging.httpUrl.trim(),
+    body: "={{ JSON.stringify($json) }}",
+    continueOnFail: true
+  });
+}
+
+// Runs after the send result merges, where each item holds the request
+// fields plus the Send API answer. Throttling, 5xx and network errors go
+// round again with a doubling delay; anything else fails straight away.
+function buildSendResultCode(form: FormState): string {
+  const retry = {
+    maxAttempts: Math.max(1, form.errorHandling.maxAttempts),
+    baseDelaySeconds: Math.max(1, form.errorHandling.retryDelaySeconds)
+  };
+  return `
+const retry = ${JSON.stringify(retry)};
+// Graph API codes for throttling and temporary outages.
+const retryableGraphCodes = [1, 2, 4, 17, 32, 341, 613];
+const responseKeys = ["error", "recipient_id", "message_id", "messaging_product", "contacts", "messages"];
+return items.map((item) => {
+  const { error } = item.json;
+  const request = { ...item.json };
+  responseKeys.forEach((key) => delete request[key]);
+  const sendAttempts = (request.sendAttempts ?? 0) + 1;
+  if (!error) {
+    return { json: { ...request, sendAttempts, retrySend: false, sendFailed: false, sendError: null } };
+  }
+  const details = typeof error === "object" ? error : { message: String(error) };
+  const message = String(details.message ?? error);
+  const statusCode =
+    Number(details.statusCode ?? details.httpCode ?? message.match(/^(\\d{3}) /)?.[1]) || null;
+  const graphError = details.error?.error ?? details.description?.error ?? null;
+  const graphCode = graphError?.code ?? null;
+  const retryable =
+    statusCode === null ||
+    statusCode === 429 ||
+    statusCode >= 500 ||
+    retryableGraphCodes.includes(graphCode);
+  const retrySend = retryable && sendAttempts < retry.maxAttempts;
+  return {
+    json: {
+      ...request,
+      sendAttempts,
+      retrySend,
+      retryDelaySeconds: retry.baseDelaySeconds * 2 ** (sendAttempts - 1),
+      sendFailed: !retrySend,
+      sendError: { statusCode, code: graphCode, message: graphError?.message ?? message },
+      failureSummary: \`Could not reply to \${request.channel ?? "messenger"} user \${request.senderId} after \${sendAttempts} attempt(s): \${graphError?.message ?? message}\`
+    }
+  };
+});
+  `.trim();
+}
+
+function buildAlertNode(form: FormState, node: NodePlacement) {
+  const { errorHandling } = form;
+  switch (errorHandling.alert) {
+    case "email":
+      return {
+        ...buildNode(form, "emailSend", node, {
+          fromEmail: errorHandling.alertFromEmail.trim(),
+          toEmail: errorHandling.alertEmail.trim(),
+          subject: `${form.automationName || "Messenger Automation"}: reply failed`,
+          ...(form.n8nTarget === "current" && { emailFormat: "text" }),
+          text: "={{$json.failureSummary}}"
+        }),
+        ...continueOnFailSetting(form),
+        credentials: {
+          smtp: {
+            name:
+              errorHandling.smtpCredential.trim() ||
+              DEFAULT_ERROR_HANDLING.smtpCredential
+          }
+        }
+      };
+    case "slack":
+      return buildHttpNode(form, node, {
+        // Slack webhook URLs are secrets, so credential mode reads it from
+        // the environment instead.
+        url:
+          form.secretStorage === "credentials"
+            ? `={{$env.${DEFAULT_SLACK_WEBHOOK_ENV}}}`
+            : form.slackWebhookUrl.trim(),
+        body: "={{ JSON.stringify({ text: $json.failureSummary }) }}",
+        continueOnFail: true
+      });
+    case "errorWorkflow":
+      // Failing the execution on purpose hands it to settings.errorWorkflow;
+      // the webhook has been answered already.
+      return buildNode(form, "stopAndError", node, {
+        errorMessage: "={{$json.failureSummary}}"
+      });
+    default:
+      return null;
+  }
+}
+
+// How a route phrase matches a message, as source so Normalize Event can
+// embed it. The builder compiles the same text for its own checks, so they
+// agree with n8n on every match mode.
+const PHRASE_MATCHER_CODE = `
+const escapeRegExp = (value) => value.replace(/[.*+?^\${}()|[\\]\\\\]/g, "\\\\$&");
+const toPattern = (matchMode, phrase) => {
+  switch (matchMode) {
+    case "regex":
+      return new RegExp(phrase, "i");
+    case "word":
+      return new RegExp(
+        "(?<![\\\\p{L}\\\\p{N}_])" + escapeRegExp(phrase) + "(?![\\\\p{L}\\\\p{N}_])",
+        "iu"
+      );
+    case "startsWith":
+      return new RegExp("^\\\\s*" + escapeRegExp(phrase), "i");
+    default:
+      return new RegExp(escapeRegExp(phrase), "i");
+  }
+};
+`.trim();
+
+export const toPhrasePattern = new Function(
+  `${PHRASE_MATCHER_CODE}\nreturn toPattern;`
+)() as (matchMode: MatchMode, phrase: string) => RegExp;
+
+export function buildNormalizeEventCode(
+  form: FormState,
+  keywordRoutes: KeywordRoute[]
+): string {
+  return `
+const webhook = items[0]?.json ?? {};
+const query = webhook.query ?? {};
+const body = webhook.body ?? {};
+const toButton = (button) =>
+  button.type === "web_url"
+    ? { type: "web_url", title: button.title, url: button.value }
+    : { type: "postback", title: button.title, payload: button.value };
+// Builds the Send API "message" object for a route's reply type.
+const buildMessengerMessage = (richReply, text) => {
+  switch (richReply?.type) {
+    case "quickReplies":
+      return {
+        text,
+        quick_replies: richReply.options.map((option) => ({
+          content_type: "text",
+          title: option.title,
+          payload: option.payload
+        }))
+      };
+    case "buttons":
+      return {
+        attachment: {
+          type: "template",
+          payload: {
+            template_type: "button",
+            text,
+            buttons: richReply.buttons.map(toButton)
+          }
+        }
+      };
+    case "carousel":
+      return {
+        attachment: {
+          type: "template",
+          payload: {
+            template_type: "generic",
+            elements: richReply.cards.map((card) => ({
+              title: card.title,
+              ...(card.subtitle && { subtitle: card.subtitle }),
+              ...(card.imageUrl && { image_url: card.imageUrl }),
+              ...(card.buttons.length && { buttons: card.buttons.map(toButton) })
+            }))
+          }
+        }
+      };
+    default:
+      return { text };
+  }
+};
+// WhatsApp only has approved templates, so quick replies and postback
+// buttons become interactive reply buttons (a list above three), and cards
+// and links are written into the text.
+const buildWhatsAppMessage = (richReply, text) => {
+  const cards = richReply?.type === "carousel" ? richReply.cards : [];
+  const buttons =
+    richReply?.type === "buttons"
+      ? richReply.buttons
+      : cards.flatMap((card) => card.buttons);
+  const choices =
+    richReply?.type === "quickReplies"
+      ? richReply.options.map((option) => ({ id: option.payload, title: option.title }))
+      : buttons
+          .filter((button) => button.type === "postback")
+          .map((button) => ({ id: button.value, title: button.title }));
+  const body = [
+    text,
+    ...cards.map((card) => "• " + [card.title, card.subtitle].filter(Boolean).join(" – ")),
+    ...buttons
+      .filter((button) => button.type === "web_url")
+      .map((button) => button.title + ": " + button.value)
+  ]
+    .filter(Boolean)
+    .join("\\n");
+  if (!choices.length) {
+    return { type: "text", text: { body } };
+  }
+  return {
+    type: "interactive",
+    interactive:
+      choices.length <= 3
+        ? {
+            type: "button",
+            body: { text: body },
+            action: {
+              buttons: choices.map((choice) => ({ type: "reply", reply: choice }))
+            }
+          }
+        : {
+            type: "list",
+            body: { text: body },
+            action: {
+              button: "Choose",
+              sections: [{ title: "Options", rows: choices.slice(0, 10) }]
+            }
+          }
+  };
+};
+const buildMessage = (channel, richReply, text) =>
+  channel === "whatsapp"
+    ? buildWhatsAppMessage(richReply, text)
+    : buildMessengerMessage(richReply, text);
+const channels = ${JSON.stringify(form.channels)};
+${buildAiFallbackCode(form, keywordRoutes)}
+// Payloads without an "object" field are treated as Messenger.
+const channel =
+  ${JSON.stringify(
+    Object.fromEntries(CHANNELS.map((choice) => [choice.webhookObject, choice.value]))
+  )}[body.object] ?? "messenger";
+const isWhatsApp = channel === "whatsapp";
+const verifyToken = ${secretExpression(
+    form,
+    form.verifyToken,
+    sanitizeEnvName(form.verifyTokenEnv) || DEFAULT_VERIFY_TOKEN_ENV
+  )};
+const keywordRoutes = ${JSON.stringify(keywordRoutes)};
+const defaultReply = ${JSON.stringify(form.defaultReply.trim())};
+const lookup = ${JSON.stringify(
+    usesLookup(form, keywordRoutes)
+      ? {
+          endpoint: form.lookup.endpoint.trim(),
+          notFoundReply: form.lookup.notFoundReply.trim()
+        }
+      : null
+  )};
+const handover = ${JSON.stringify({
+    targetAppId: form.handoverTargetAppId.trim() || PAGE_INBOX_APP_ID,
+    pauseMinutes: form.handoverPauseMinutes
+  })};
+// Senders handed over to a human stay silent until their pause expires or
+// thread control comes back to this app.
+const staticData = $getWorkflowStaticData("global");
+const pausedSenders = (staticData.pausedSenders = staticData.pausedSenders ?? {});
+const nowMs = new Date().getTime();
+const pauseUntil = nowMs + handover.pauseMinutes * 60000;
+${PHRASE_MATCHER_CODE}
+${buildLocalizationCode(form)}
+${buildFlowCode(form, keywordRoutes)}
+// Translated phrases remember their locale; the route's own phrases have
+// none and leave the choice to the sender's locale or the message text.
+const compiledRoutes = keywordRoutes.flatMap((route, index) =>
+  [
+    [null, route.phrases],
+    ...Object.entries((localization && route.translations) || {}).map(
+      ([locale, translation]) => [locale, translation.phrases]
+    )
+  ].flatMap(([locale, phrases]) =>
+    phrases.flatMap((phrase) => {
+      try {
+        return [
+          { ...route, index, phrase, locale, pattern: toPattern(route.matchMode, phrase) }
+        ];
+      } catch (error) {
+        return [];
+      }
+    })
+  )
+);
+${buildBusinessHoursCode(form)}
+
+if (query["hub.mode"] === "subscribe") {
+  const tokenMatches = query["hub.verify_token"] === verifyToken;
+  return [
+    {
+      json: {
+        isVerification: true,
+        statusCode: tokenMatches ? 200 : 403,
+        responseBody: tokenMatches
+          ? query["hub.challenge"] ?? "Verification challenge missing."
+          : "Verification token mismatch.",
+        tokenMatches
+      }
+    }
+  ];
+}
+
+if (!channels.includes(channel)) {
+  return [
+    {
+      json: {
+        isVerification: false,
+        shouldReply: false,
+        statusCode: 200,
+        responseBody: "EVENT_RECEIVED",
+        channel,
+        reason: "The " + channel + " channel is not enabled for this workflow.",
+        rawEvent: body
+      }
+    }
+  ];
+}
+
+// Meta batches events: Messenger and Instagram entries carry messaging
+// events, WhatsApp entries carry changes whose value lists messages.
+const entries = Array.isArray(body.entry) ? body.entry : [];
+const events = entries.flatMap((entry) =>
+  isWhatsApp
+    ? (Array.isArray(entry?.changes) ? entry.changes : []).flatMap((change) =>
+        (Array.isArray(change?.value?.messages) ? change.value.messages : []).map(
+          (message) => ({
+            message,
+            phoneNumberId: change.value.metadata?.phone_number_id ?? ""
+          })
+        )
+      )
+    : Array.isArray(entry?.messaging)
+      ? entry.messaging
+      : []
+);
+
+if (!events.length) {
+  return [
+    {
+      json: {
+        isVerification: false,
+        shouldReply: false,
+        statusCode: 200,
+        responseBody: "EVENT_RECEIVED",
+        channel,
+        reason: "No messaging events in the payload.",
+        rawEvent: body
+      }
+    }
+  ];
+}
+
+return events.map((messaging) => {
+  const senderId = isWhatsApp
+    ? messaging.message?.from ?? ""
+    : messaging?.sender?.id ?? "";
+  const whatsappChoice =
+    messaging?.message?.interactive?.button_reply ??
+    messaging?.message?.interactive?.list_reply;
+  // Quick-reply, postback and interactive reply payloads go through the same
+  // keyword router as typed text.
+  const inputType = isWhatsApp
+    ? whatsappChoice
+      ? "quick_reply"
+      : messaging.message?.button
+        ? "postback"
+        : "text"
+    : messaging?.message?.quick_reply
+      ? "quick_reply"
+      : messaging?.postback
+        ? "postback"
+        : "text";
+  const messageText = isWhatsApp
+    ? whatsappChoice?.id ??
+      messaging.message?.button?.payload ??
+      messaging.message?.text?.body ??
+      ""
+    : messaging?.message?.quick_reply?.payload ??
+      messaging?.postback?.payload ??
+      messaging?.message?.text ??
+      "";
+  const silent = (reason, extra = {}) => ({
+    json: {
+      isVerification: false,
+      shouldReply: false,
+      handover: false,
+      statusCode: 200,
+      responseBody: "EVENT_RECEIVED",
+      channel,
+      senderId,
+      reason,
+      ...extra,
+      rawEvent: messaging
+    }
+  });
+
+  if (messaging?.pass_thread_control) {
+    delete pausedSenders[senderId];
+    return silent("Thread control was passed back to the bot.");
+  }
+
+  if (messaging?.take_thread_control) {
+    pausedSenders[senderId] = pauseUntil;
+    return silent("Another app took thread control; the bot is paused.");
+  }
+
+  if (messaging?.request_thread_control) {
+    pausedSenders[senderId] = pauseUntil;
+    return silent("Another app requested thread control; passing it on.", {
+      handover: true,
+      handoverTargetAppId: String(
+        messaging.request_thread_control.requested_owner_app_id ?? ""
+      )
+    });
+  }
+
+  if ((pausedSenders[senderId] ?? 0) > nowMs) {
+    return silent("The bot is paused while a human handles this thread.");
+  }
+  delete pausedSenders[senderId];
+
+  if (!senderId || !messageText) {
+    return silent("No message text or sender detected.");
+  }
+
+  const routeMatch = compiledRoutes
+    .filter((route) => route.pattern.test(messageText))
+    .sort((a, b) => b.priority - a.priority || a.index - b.index)[0];
+  // A sender inside a flow answers its step. An answer the step rejects
+  // but a route matches leaves the flow for that route instead.
+  const session = flows ? sessions[senderId] : null;
+  const step = session?.step ? flows.steps[session.step] : null;
+  const answer = step ? readAnswer(step, messageText) : null;
+  const answersStep = Boolean(step) && (answer !== null || !routeMatch);
+  const matchedRoute = answersStep ? undefined : routeMatch;
+  const variables = {
+    ...session?.variables,
+    ...(answersStep && answer !== null && { [step.variable]: answer })
+  };
+  const awaiting = answersStep
+    ? answer !== null
+      ? step.next || null
+      : session.step
+    : matchedRoute?.awaiting ?? null;
+  if (flows && (awaiting || Object.keys(variables).length)) {
+    sessions[senderId] = {
+      step: awaiting,
+      variables,
+      expiresAt: nowMs + flows.timeoutMinutes * 60000
+    };
+  } else if (flows) {
+    delete sessions[senderId];
+  }
+  // A profile locale is only known from the sender's second message on,
+  // since the lookup runs alongside the first reply.
+  const locale = localization
+    ? toLocale(senderLocales[senderId]) ??
+      matchedRoute?.locale ??
+      detectLocale(messageText) ??
+      localization.defaultLocale
+    : null;
+  const routeReply = fillTemplate(
+    answersStep
+      ? answer !== null
+        ? step.reply
+        : step.retryReply || defaultReply
+      : matchedRoute
+        ? matchedRoute.translations?.[locale]?.reply || matchedRoute.reply
+        : localization?.defaultReplies[locale] || defaultReply,
+    variables
+  );
+  // WhatsApp has no handover protocol: the bot just goes quiet so a person
+  // can answer from the WhatsApp Business inbox.
+  const handsOver = matchedRoute?.action === "handover";
+  if (handsOver) {
+    pausedSenders[senderId] = pauseUntil;
+  }
+  const passesThread = handsOver && !isWhatsApp;
+  // Unmatched messages during opening hours go to the AI endpoint; the reply
+  // computed here stays as the fallback if that call fails.
+  const needsAi =
+    Boolean(aiFallback) && !matchedRoute && !answersStep && isOpenNow;
+  const replacedAfterHours =
+    !isOpenNow && businessHours.afterHoursMode !== "suffix";
+  const replyText = isOpenNow
+    ? routeReply
+    : replacedAfterHours
+      ? businessHours.afterHoursReply
+      : routeReply + "\\n\\n" + businessHours.afterHoursReply;
+  // Lookup replies keep their {{response.field}} placeholders until Use
+  // Lookup Reply fills them, and go out as plain text.
+  const looksUp =
+    Boolean(lookup) &&
+    !replacedAfterHours &&
+    (answersStep
+      ? answer !== null && step.lookup
+      : matchedRoute?.action === "lookup");
+
+  return {
+    json: {
+      isVerification: false,
+      shouldReply: true,
+      statusCode: 200,
+      responseBody: "EVENT_RECEIVED",
+      channel,
+      senderId,
+      phoneNumberId: isWhatsApp ? messaging.phoneNumberId : null,
+      inputType,
+      messageText,
+      replyText,
+      replyMessage: buildMessage(
+        channel,
+        replacedAfterHours || looksUp ? undefined : matchedRoute?.richReply,
+        replyText
+      ),
+      matchedPhrase: matchedRoute?.phrase ?? null,
+      flowStep: answersStep ? session.step : null,
+      awaiting,
+      variables,
+      needsLookup: looksUp,
+      ...(looksUp && {
+        lookupUrl: lookup.endpoint.replace(
+          /\\{\\{\\s*(\\w+)\\s*\\}\\}/g,
+          (placeholder, name) => encodeURIComponent(variables[name] ?? "")
+        ),
+        lookupTemplate: routeReply,
+        lookupNotFound: fillTemplate(lookup.notFoundReply, variables)
+      }),
+      locale,
+      needsLocale:
+        Boolean(localization?.lookUpProfile) &&
+        channel === "messenger" &&
+        senderLocales[senderId] === undefined,
+      afterHours: !isOpenNow,
+      handover: passesThread,
+      handoverTargetAppId: passesThread ? handover.targetAppId : null,
+      needsAi,
+      ...(needsAi && {
+        aiRequest: {
+          model: aiFallback.model,
+          messages: [
+            {
+              role: "system",
+              content: [aiFallback.systemPrompt, aiFallback.routeContext]
+                .filter(Boolean)
+                .join("\\n\\n")
+            },
+            { role: "user", content: messageText }
+          ]
+        }
+      }),
+      rawEvent: messaging
+    }
+  };
+});
+  `.trim();
+}
+
+export function generateWorkflowJson(
+  form: FormState,
+  keywordRoutes: KeywordRoute[],
+  identity: WorkflowIdentity
+): string {
+  // Ids and timestamps come from the project, so exporting the same
+  // configuration twice yields byte-identical JSON.
+  const timestamp = identity.createdAt;
+  const webhookNodeId = deriveId(identity, "webhook");
+  const verificationWebhookNodeId = deriveId(identity, "verification-webhook");
+  const functionNodeId = deriveId(identity, "function");
+  const verificationNodeId = deriveId(identity, "respond-verification");
+  const routeVerificationNodeId = deriveId(identity, "route-verification");
+  const shouldReplyNodeId = deriveId(identity, "route-reply");
+  const sendMessageNodeId = deriveId(identity, "send-message");
+  const verifySignatureNodeId = deriveId(identity, "verify-signature");
+  const signatureValidNodeId = deriveId(identity, "signature-valid");
+  const rejectSignatureNodeId = deriveId(identity, "reject-signature");
+  const needsHandoverNodeId = deriveId(identity, "needs-handover");
+  const passThreadControlNodeId = deriveId(identity, "pass-thread-control");
+  const whatsappReplyNodeId = deriveId(identity, "whatsapp-reply");
+  const sendWhatsAppNodeId = deriveId(identity, "send-whatsapp");
+  const mergeChannelsNodeId = deriveId(identity, "merge-channels");
+  const needsAiNodeId = deriveId(identity, "needs-ai");
+  const askAiNodeId = deriveId(identity, "ask-ai");
+  const useAiReplyNodeId = deriveId(identity, "use-ai-reply");
+  const mergeAiNodeId = deriveId(identity, "merge-ai");
+  const needsLookupNodeId = deriveId(identity, "needs-lookup");
+  const lookUpOrderNodeId = deriveId(identity, "look-up-order");
+  const useLookupReplyNodeId = deriveId(identity, "use-lookup-reply");
+  const mergeLookupsNodeId = deriveId(identity, "merge-lookups");
+  const webhookAckNodeId = deriveId(identity, "respond-ack");
+  const messengerResultNodeId = deriveId(identity, "messenger-send-result");
+  const whatsappResultNodeId = deriveId(identity, "whatsapp-send-result");
+  const checkSendNodeId = deriveId(identity, "check-send-results");
+  const retrySendNodeId = deriveId(identity, "retry-send");
+  const backOffNodeId = deriveId(identity, "back-off");
+  const sendFailedNodeId = deriveId(identity, "send-failed");
+  const alertNodeId = deriveId(identity, "alert-failure");
+  const logRowNodeId = deriveId(identity, "log-row");
+  const logSinkNodeId = deriveId(identity, "log-sink");
+  const needsLocaleNodeId = deriveId(identity, "needs-locale");
+  const lookUpLocaleNodeId = deriveId(identity, "look-up-locale");
+  const rememberLocaleNodeId = deriveId(identity, "remember-locale");
+  const workflowId = deriveId(identity, "workflow");
+
+  const webhookPath = form.webhookPath || sanitizeWebhookPath(form.automationName);
+  const checksSignature = isSignatureCheckEnabled(form);
+  // Meta verifies the callback URL with a GET and delivers events by POST.
+  // Webhook v2 takes both methods on one node with an output per method;
+  // v1 needs a second node on the same path for the GET.
+  const current = form.n8nTarget === "current";
+  const webhookX = checksSignature ? -1040 : -520;
+  const sendsToMessenger = form.channels.some(
+    (channel) => channel !== "whatsapp"
+  );
+  const sendsToWhatsApp = form.channels.includes("whatsapp");
+  // With both reply nodes, a channel check splits the batch and a second
+  // merge gathers it again before Check Send Results.
+  const splitsChannels = sendsToMessenger && sendsToWhatsApp;
+  const sendNodeName = sendsToMessenger
+    ? "Send Messenger Reply"
+    : "Send WhatsApp Reply";
+  const sendResultName = sendsToMessenger
+    ? "Messenger Send Result"
+    : "WhatsApp Send Result";
+  // Each send node's input is also merged by position with its output, so
+  // a failed item still carries the message needed to retry it.
+  const sendTargets = (sendNode: string, resultNode: string) => [
+    {
+      node: sendNode,
+      type: "main",
+      index: 0
+    },
+    {
+      node: resultNode,
+      type: "main",
+      index: 0
+    }
+  ];
+  const sendEntryTargets = splitsChannels
+    ? [
+        {
+          node: "WhatsApp Reply?",
+          type: "main",
+          index: 0
+        }
+      ]
+    : sendTargets(sendNodeName, sendResultName);
+  // Lookup replies detour through Look Up Order and unmatched messages
+  // through Ask AI, then both rejoin the reply path.
+  const looksUpOrders = usesLookup(form, keywordRoutes);
+  const lookupOffset = looksUpOrders ? 960 : 0;
+  const usesAi = isAiFallbackEnabled(form);
+  const aiOffset = usesAi ? 960 : 0;
+  const aiX = 880 + lookupOffset;
+  const replyX = aiX + aiOffset;
+  const sendX = splitsChannels ? replyX + 280 : replyX;
+  const checkX = replyX + (splitsChannels ? 1020 : 480);
+  const alertNode = buildAlertNode(form, {
+    id: alertNodeId,
+    name: "Alert Failure",
+    position: [checkX + 720, 600]
+  });
+  const aiKeyCredential = form.aiKeyCredential.trim();
+  const aiUsesCredential =
+    form.secretStorage === "credentials" && Boolean(aiKeyCredential);
+  const lookupCredential = form.lookupCredential.trim();
+  const lookupUsesCredential =
+    form.secretStorage === "credentials" && Boolean(lookupCredential);
+  const lookupAuthHeader = form.lookup.authHeader.trim();
+  // Replied items are logged once their final text is known, after any
+  // lookup or AI detour has rewritten it.
+  const logsConversations = isLoggingEnabled(form);
+  const logX = replyX;
+  const logConnection = logsConversations
+    ? [
+        {
+          node: "Prepare Log Row",
+          type: "main",
+          index: 0
+        }
+      ]
+    : [];
+  const afterLookupTargets = usesAi
+    ? [
+        {
+          node: "Needs AI Reply?",
+          type: "main",
+          index: 0
+        }
+      ]
+    : [...sendEntryTargets, ...logConnection];
+
+  // New Messenger senders get their profile locale looked up once, off the
+  // reply path, and cached in static data for Normalize Event.
+  const looksUpLocale = looksUpProfileLocale(form);
+  const staticGlobals = {
+    ...(keywordRoutes.some((route) => route.action === "handover") && {
+      pausedSenders: {}
+    }),
+    ...(looksUpLocale && { senderLocales: {} }),
+    ...(usesFlows(form, keywordRoutes) && { sessions: {} })
+  };
+
+  const functionCode = buildNormalizeEventCode(form, keywordRoutes);
+
+  const workflow = {
+    id: workflowId,
+    name: form.automationName || "Messenger Automation",
+    active: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    versionId: "",
+    nodes: [
+      {
+        ...buildNode(
+          form,
+          "webhook",
+          {
+            id: webhookNodeId,
+            name: "Messenger Webhook",
+            position: [webhookX, 300]
+          },
+          {
+            ...(current
+              ? { multipleMethods: true, httpMethod: ["GET", "POST"] }
+              : { httpMethod: "POST" }),
+            path: webhookPath,
+            responseMode: "responseNode",
+            options: {
+              // The signature is computed over the exact bytes Meta sent.
+              rawBody: checksSignature
+            }
+          }
+        ),
+        webhookId: deriveId(identity, "webhook-path")
+      },
+      ...(current
+        ? []
+        : [
+            {
+              ...buildNode(
+                form,
+                "webhook",
+                {
+                  id: verificationWebhookNodeId,
+                  name: "Verification Webhook",
+                  position: [webhookX, 100]
+                },
+                {
+                  httpMethod: "GET",
+                  path: webhookPath,
+                  responseMode: "responseNode",
+                  options: {}
+                }
+              ),
+              webhookId: deriveId(identity, "verification-webhook-path")
+            }
+          ]),
+      ...(checksSignature
+        ? [
+            buildCodeNode(
+              form,
+              {
+                id: verifySignatureNodeId,
+                name: "Verify Signature",
+                position: [-780, 300]
+              },
+              buildSignatureCheckCode(form)
+            ),
+            buildIfNode(
+              form,
+              {
+                id: signatureValidNodeId,
+                name: "Signature Valid?",
+                position: [-520, 300]
+              },
+              { value: "={{$json.signatureValid}}" }
+            ),
+            buildRespondNode(
+              form,
+              {
+                id: rejectSignatureNodeId,
+                name: "Reject Signature",
+                position: [-220, 520]
+              },
+              {
+                respondWith: "text",
+                responseBody: "Invalid X-Hub-Signature-256.",
+                responseCode: 403
+              }
+            )
+          ]
+        : []),
+      buildCodeNode(
+        form,
+        {
+          id: functionNodeId,
+          name: "Normalize Event",
+          position: [-220, 300]
+        },
+        functionCode
+      ),
+      buildIfNode(
+        form,
+        {
+          id: routeVerificationNodeId,
+          name: "Route Verification",
+          position: [40, 300]
+        },
+        { value: "={{$json.isVerification}}" }
+      ),
+      buildRespondNode(
+        form,
+        {
+          id: verificationNodeId,
+          name: "Respond Verification",
+          position: [320, 120]
+        },
+        {
+          respondWith: "json",
+          responseBody: "={{$json.responseBody}}",
+          responseCode: "={{$json.statusCode}}"
+        }
+      ),
+      // Meta gets its answer before any reply goes out, so a slow or failing
+      // Send API call can never make it retry the delivery.
+      buildRespondNode(
+        form,
+        {
+          id: webhookAckNodeId,
+          name: "Respond OK",
+          position: [320, 460]
+        },
+        {
+          respondWith: "text",
+          responseBody: "EVENT_RECEIVED",
+          responseCode: 200
+        }
+      ),
+      buildIfNode(
+        form,
+        {
+          id: shouldReplyNodeId,
+          name: "Should Reply?",
+          position: [580, 460]
+        },
+        { value: "={{$json.shouldReply}}" }
+      ),
+      ...(looksUpOrders
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: needsLookupNodeId,
+                name: "Needs Lookup?",
+                position: [880, 460]
+              },
+              { value: "={{$json.needsLookup}}" }
+            ),
+            // The full response keeps an array body as one item, and a
+            // failed request still reaches Use Lookup Reply as not found.
+            buildHttpNode(
+              form,
+              {
+                id: lookUpOrderNodeId,
+                name: "Look Up Order",
+                position: [1120, 380]
+              },
+              {
+                method: "GET",
+                url: "={{$json.lookupUrl}}",
+                ...(lookupUsesCredential
+                  ? {
+                      credential: {
+                        type: "httpHeaderAuth",
+                        name: lookupCredential
+                      }
+                    }
+                  : form.secretStorage === "inline" &&
+                    lookupAuthHeader &&
+                    form.lookupAuthValue.trim() && {
+                      headers: {
+                        [lookupAuthHeader]: form.lookupAuthValue.trim()
+                      }
+                    }),
+                timeout: Math.max(1, form.lookup.timeoutSeconds) * 1000,
+                continueOnFail: true,
+                fullResponse: true
+              }
+            ),
+            buildCodeNode(
+              form,
+              {
+                id: useLookupReplyNodeId,
+                name: "Use Lookup Reply",
+                position: [1360, 380]
+              },
+              buildLookupReplyCode()
+            ),
+            buildMergeNode(
+              form,
+              {
+                id: mergeLookupsNodeId,
+                name: "Merge Lookups",
+                position: [1600, 460]
+              },
+              "append"
+            )
+          ]
+        : []),
+      ...(usesAi
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: needsAiNodeId,
+                name: "Needs AI Reply?",
+                position: [aiX, 460]
+              },
+              { value: "={{$json.needsAi}}" }
+            ),
+            // Errors and timeouts come out as items so Use AI Reply can
+            // fall back to the default reply.
+            buildHttpNode(
+              form,
+              {
+                id: askAiNodeId,
+                name: "Ask AI",
+                position: [aiX + 240, 380]
+              },
+              {
+                url: form.aiFallback.endpoint.trim(),
+                body: "={{ JSON.stringify($json.aiRequest) }}",
+                ...(aiUsesCredential
+                  ? { credential: { type: "httpHeaderAuth", name: aiKeyCredential } }
+                  : form.secretStorage === "inline" &&
+                    form.aiApiKey.trim() && {
+                      headers: { Authorization: `Bearer ${form.aiApiKey.trim()}` }
+                    }),
+                timeout: Math.max(1, form.aiFallback.timeoutSeconds) * 1000,
+                continueOnFail: true
+              }
+            ),
+            buildCodeNode(
+              form,
+              {
+                id: useAiReplyNodeId,
+                name: "Use AI Reply",
+                position: [aiX + 480, 380]
+              },
+              buildAiReplyCode()
+            ),
+            buildMergeNode(
+              form,
+              {
+                id: mergeAiNodeId,
+                name: "Merge AI Replies",
+                position: [aiX + 720, 460]
+              },
+              "append"
+            )
+          ]
+        : []),
+      ...(splitsChannels
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: whatsappReplyNodeId,
+                name: "WhatsApp Reply?",
+                position: [replyX, 460]
+              },
+              { value: "={{$json.channel}}", equals: "whatsapp" }
+            ),
+            buildMergeNode(
+              form,
+              {
+                id: mergeChannelsNodeId,
+                name: "Merge Channels",
+                position: [replyX + 780, 460]
+              },
+              "append"
+            )
+          ]
+        : []),
+      ...(sendsToMessenger
+        ? [
+            buildGraphRequestNode(form, {
+              id: sendMessageNodeId,
+              name: "Send Messenger Reply",
+              position: [sendX, splitsChannels ? 360 : 420],
+              url: "https://graph.facebook.com/v18.0/me/messages",
+              body: buildPayloadExpression(SEND_PAYLOADS.messenger),
+              continueOnFail: true
+            }),
+            buildMergeNode(
+              form,
+              {
+                id: messengerResultNodeId,
+                name: "Messenger Send Result",
+                position: [sendX + 240, splitsChannels ? 360 : 460]
+              },
+              "combineByPosition"
+            )
+          ]
+        : []),
+      ...(sendsToWhatsApp
+        ? [
+            buildGraphRequestNode(
+              form,
+              {
+                id: sendWhatsAppNodeId,
+                name: "Send WhatsApp Reply",
+                position: [sendX, splitsChannels ? 560 : 420],
+                // Replies go out from the number that received the message.
+                url: '={{ "https://graph.facebook.com/v18.0/" + $json.phoneNumberId + "/messages" }}',
+                body: buildPayloadExpression(SEND_PAYLOADS.whatsapp),
+                continueOnFail: true
+              },
+              {
+                value: form.whatsappAccessToken,
+                credential:
+                  form.whatsappTokenCredential.trim() ||
+                  DEFAULT_WHATSAPP_TOKEN_CREDENTIAL
+              }
+            ),
+            buildMergeNode(
+              form,
+              {
+                id: whatsappResultNodeId,
+                name: "WhatsApp Send Result",
+                position: [sendX + 240, splitsChannels ? 560 : 460]
+              },
+              "combineByPosition"
+            )
+          ]
+        : []),
+      ...(sendsToMessenger
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: needsHandoverNodeId,
+                name: "Needs Handover?",
+                position: [580, 760]
+              },
+              { value: "={{$json.handover}}" }
+            ),
+            buildGraphRequestNode(form, {
+              id: passThreadControlNodeId,
+              name: "Pass Thread Control",
+              position: [880, 740],
+              url: "https://graph.facebook.com/v18.0/me/pass_thread_control",
+              body: buildPayloadExpression(SEND_PAYLOADS.passThreadControl)
+            })
+          ]
+        : []),
+      ...(looksUpLocale
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: needsLocaleNodeId,
+                name: "Needs Locale?",
+                position: [580, 1000]
+              },
+              { value: "={{$json.needsLocale}}" }
+            ),
+            buildGraphRequestNode(form, {
+              id: lookUpLocaleNodeId,
+              name: "Look Up Locale",
+              position: [880, 980],
+              method: "GET",
+              url: '={{ "https://graph.facebook.com/v18.0/" + $json.senderId }}',
+              query: { fields: "locale" },
+              continueOnFail: true
+            }),
+            buildCodeNode(
+              form,
+              {
+                id: rememberLocaleNodeId,
+                name: "Remember Locale",
+                position: [1120, 980]
+              },
+              buildRememberLocaleCode()
+            )
+          ]
+        : []),
+      ...(logsConversations
+        ? [
+            buildCodeNode(
+              form,
+              {
+                id: logRowNodeId,
+                name: "Prepare Log Row",
+                position: [logX, 200]
+              },
+              buildLogRowCode()
+            ),
+            buildLogSinkNode(form, {
+              id: logSinkNodeId,
+              name: "Log Conversation",
+              position: [logX + 240, 200]
+            })
+          ]
+        : []),
+      buildCodeNode(
+        form,
+        {
+          id: checkSendNodeId,
+          name: "Check Send Results",
+          position: [checkX, 460]
+        },
+        buildSendResultCode(form)
+      ),
+      buildIfNode(
+        form,
+        {
+          id: retrySendNodeId,
+          name: "Retry Send?",
+          position: [checkX + 240, 460]
+        },
+        { value: "={{$json.retrySend}}" }
+      ),
+      buildNode(
+        form,
+        "wait",
+        {
+          id: backOffNodeId,
+          name: "Back Off",
+          position: [checkX + 480, 300]
+        },
+        {
+          resume: "timeInterval",
+          amount: "={{$json.retryDelaySeconds}}",
+          unit: "seconds"
+        }
+      ),
+      ...(alertNode
+        ? [
+            buildIfNode(
+              form,
+              {
+                id: sendFailedNodeId,
+                name: "Send Failed?",
+                position: [checkX + 480, 600]
+              },
+              { value: "={{$json.sendFailed}}" }
+            ),
+            alertNode
+          ]
+        : [])
+    ],
+    connections: {
+      "Messenger Webhook": {
+        main: [
+          ...(current
+            ? [
+                [
+                  {
+                    node: "Normalize Event",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              ]
+            : []),
+          [
+            {
+              node: checksSignature ? "Verify Signature" : "Normalize Event",
+              type: "main",
+              index: 0
+            }
+          ]
+        ]
+      },
+      ...(!current && {
+        "Verification Webhook": {
+          main: [
+            [
+              {
+                node: "Normalize Event",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      }),
+      ...(checksSignature && {
+        "Verify Signature": {
+          main: [
+            [
+              {
+                node: "Signature Valid?",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Signature Valid?": {
+          main: [
+            [
+              {
+                node: "Normalize Event",
+                type: "main",
+                index: 0
+              }
+            ],
+            [
+              {
+                node: "Reject Signature",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      }),
+      "Normalize Event": {
+        main: [
+          [
+            {
+              node: "Route Verification",
+              type: "main",
+              index: 0
+            }
+          ]
+        ]
+      },
+      "Route Verification": {
+        main: [
+          [
+            {
+              node: "Respond Verification",
+              type: "main",
+              index: 0
+            }
+          ],
+          [
+            {
+              node: "Respond OK",
+              type: "main",
+              index: 0
+            }
+          ]
+        ]
+      },
+      "Respond OK": {
+        main: [
+          [
+            {
+              node: "Should Reply?",
+              type: "main",
+              index: 0
+            },
+            ...(sendsToMessenger
+              ? [
+                  {
+                    node: "Needs Handover?",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              : []),
+            ...(looksUpLocale
+              ? [
+                  {
+                    node: "Needs Locale?",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              : [])
+          ]
+        ]
+      },
+      ...(looksUpLocale && {
+        "Needs Locale?": {
+          main: [
+            [
+              {
+                node: "Look Up Locale",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Look Up Locale": {
+          main: [
+            [
+              {
+                node: "Remember Locale",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      }),
+      ...(sendsToMessenger && {
+        "Needs Handover?": {
+          main: [
+            [
+              {
+                node: "Pass Thread Control",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      }),
+      "Should Reply?": {
+        main: [
+          looksUpOrders
+            ? [
+                {
+                  node: "Needs Lookup?",
+                  type: "main",
+                  index: 0
+                }
+              ]
+            : afterLookupTargets,
+          []
+        ]
+      },
+      ...(looksUpOrders && {
+        "Needs Lookup?": {
+          main: [
+            [
+              {
+                node: "Look Up Order",
+                type: "main",
+                index: 0
+              }
+            ],
+            [
+              {
+                node: "Merge Lookups",
+                type: "main",
+                index: 1
+              }
+            ]
+          ]
+        },
+        "Look Up Order": {
+          main: [
+            [
+              {
+                node: "Use Lookup Reply",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Use Lookup Reply": {
+          main: [
+            [
+              {
+                node: "Merge Lookups",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Merge Lookups": {
+          main: [afterLookupTargets]
+        }
+      }),
+      ...(usesAi && {
+        "Needs AI Reply?": {
+          main: [
+            [
+              {
+                node: "Ask AI",
+                type: "main",
+                index: 0
+              }
+            ],
+            [
+              {
+                node: "Merge AI Replies",
+                type: "main",
+                index: 1
+              }
+            ]
+          ]
+        },
+        "Ask AI": {
+          main: [
+            [
+              {
+                node: "Use AI Reply",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Use AI Reply": {
+          main: [
+            [
+              {
+                node: "Merge AI Replies",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        },
+        "Merge AI Replies": {
+          main: [
+            [...sendEntryTargets, ...logConnection]
+          ]
+        }
+      }),
+      ...(logsConversations && {
+        "Prepare Log Row": {
+          main: [
+            [
+              {
+                node: "Log Conversation",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      }),
+      ...(splitsChannels
+        ? {
+            "WhatsApp Reply?": {
+              main: [
+                sendTargets("Send WhatsApp Reply", "WhatsApp Send Result"),
+                sendTargets("Send Messenger Reply", "Messenger Send Result")
+              ]
+            },
+            "Send Messenger Reply": {
+              main: [
+                [
+                  {
+                    node: "Messenger Send Result",
+                    type: "main",
+                    index: 1
+                  }
+                ]
+              ]
+            },
+            "Send WhatsApp Reply": {
+              main: [
+                [
+                  {
+                    node: "WhatsApp Send Result",
+                    type: "main",
+                    index: 1
+                  }
+                ]
+              ]
+            },
+            "Messenger Send Result": {
+              main: [
+                [
+                  {
+                    node: "Merge Channels",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              ]
+            },
+            "WhatsApp Send Result": {
+              main: [
+                [
+                  {
+                    node: "Merge Channels",
+                    type: "main",
+                    index: 1
+                  }
+                ]
+              ]
+            },
+            "Merge Channels": {
+              main: [
+                [
+                  {
+                    node: "Check Send Results",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              ]
+            }
+          }
+        : {
+            [sendNodeName]: {
+              main: [
+                [
+                  {
+                    node: sendResultName,
+                    type: "main",
+                    index: 1
+                  }
+                ]
+              ]
+            },
+            [sendResultName]: {
+              main: [
+                [
+                  {
+                    node: "Check Send Results",
+                    type: "main",
+                    index: 0
+                  }
+                ]
+              ]
+            }
+          }),
+      "Check Send Results": {
+        main: [
+          [
+            {
+              node: "Retry Send?",
+              type: "main",
+              index: 0
+            }
+          ]
+        ]
+      },
+      // Retries loop back to the send step after the delay; exhausted or
+      // permanent failures leave by the false output.
+      "Retry Send?": {
+        main: [
+          [
+            {
+              node: "Back Off",
+              type: "main",
+              index: 0
+            }
+          ],
+          alertNode
+            ? [
+                {
+                  node: "Send Failed?",
+                  type: "main",
+                  index: 0
+                }
+              ]
+            : []
+        ]
+      },
+      "Back Off": {
+        main: [sendEntryTargets]
+      },
+      ...(alertNode && {
+        "Send Failed?": {
+          main: [
+            [
+              {
+                node: "Alert Failure",
+                type: "main",
+                index: 0
+              }
+            ]
+          ]
+        }
+      })
+    },
+    settings: {
+      timezone: form.timezone,
+      // v1 ordering runs the send result merges only once both inputs
+      // have arrived, and lets Merge Channels run with a single channel.
+      executionOrder: "v1",
+      ...(form.errorHandling.alert === "errorWorkflow" &&
+        form.errorHandling.errorWorkflowId.trim() && {
+          errorWorkflow: form.errorHandling.errorWorkflowId.trim()
+        })
+    },
+    pinData: {},
+    staticData: Object.keys(staticGlobals).length
+      ? { global: staticGlobals }
+      : {}
+  };
+  // The version only moves when the generated content does.
+  workflow.versionId = deriveId(identity, "version", JSON.stringify(workflow));
+
+  return JSON.stringify(workflow, null, 2);
+}
+
+export function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// Workflows exported before match modes existed embed { phrase, reply }.
+export function normalizeImportedRoute(value: unknown): KeywordRoute | null {
+  const route = value as Partial<KeywordRoute> & { phrase?: unknown };
+  if (!route || typeof route.reply !== "string") {
+    return null;
+  }
+  const phrases = Array.isArray(route.phrases)
+    ? route.phrases.filter(
+        (phrase): phrase is string => typeof phrase === "string"
+      )
+    : typeof route.phrase === "string"
+      ? [route.phrase]
+      : [];
+  if (!phrases.length) {
+    return null;
+  }
+  const richReply = normalizeRichReply(route.richReply);
+  const translations = Object.entries(
+    (route.translations ?? {}) as Record<string, Partial<RouteTranslation>>
+  ).flatMap(([locale, translation]) =>
+    Array.isArray(translation?.phrases) && typeof translation.reply === "string"
+      ? [
+          [
+            locale,
+            {
+              phrases: translation.phrases.filter(
+                (phrase): phrase is string => typeof phrase === "string"
+              ),
+              reply: translation.reply
+            }
+          ] as const
+        ]
+      : []
+  );
+  return {
+    phrases,
+    reply: route.reply,
+    matchMode:
+      typeof route.matchMode === "string" && isMatchMode(route.matchMode)
+        ? route.matchMode
+        : "contains",
+    priority: typeof route.priority === "number" ? route.priority : 0,
+    action:
+      route.action === "handover" || route.action === "lookup"
+        ? route.action
+        : "reply",
+    ...(typeof route.awaiting === "string" && { awaiting: route.awaiting }),
+    ...(richReply && { richReply }),
+    ...(translations.length > 0 && {
+      translations: Object.fromEntries(translations)
+    })
+  };
+}
+
+export function normalizeRichReply(value: unknown): RichReply | undefined {
+  const text = (field: unknown) => (typeof field === "string" ? field : "");
+  const list = (field: unknown): Record<string, unknown>[] =>
+    Array.isArray(field) ? field : [];
+  const buttons = (field: unknown): ReplyButton[] =>
+    list(field).map((button) => ({
+      type: button.type === "web_url" ? "web_url" : "postback",
+      title: text(button.title),
+      value: text(button.value)
+    }));
+  const richReply = value as { type?: unknown } & Record<string, unknown>;
+  switch (richReply?.type) {
+    case "quickReplies":
+      return {
+        type: "quickReplies",
+        options: list(richReply.options).map((option) => ({
+          title: text(option.title),
+          payload: text(option.payload)
+        }))
+      };
+    case "buttons":
+      return { type: "buttons", buttons: buttons(richReply.buttons) };
+    case "carousel":
+      return {
+        type: "carousel",
+        cards: list(richReply.cards).map((card) => ({
+          title: text(card.title),
+          subtitle: text(card.subtitle),
+          imageUrl: text(card.imageUrl),
+          buttons: buttons(card.buttons)
+        }))
+      };
+    default:
+      return undefined;
+  }
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "[]";
+  }
+  if (value && typeof value === "object") {
+    return "{}";
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value ?? null);
+}
+
+function isYamlBlock(value: unknown) {
+  return (
+    (Array.isArray(value) && value.length > 0) ||
+    (Boolean(value) &&
+      typeof value === "object" &&
+      Object.keys(value as object).length > 0)
+  );
+}
+
+// Block-style YAML with JSON-quoted strings, which every YAML parser reads
+// back verbatim.
+function stringifyYaml(value: unknown, indent = 0): string[] {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isYamlBlock(item)) {
+        return [`${pad}- ${formatYamlScalar(item)}`];
+      }
+      const [first, ...rest] = stringifyYaml(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  return Object.entries(value as Record<string, unknown>).flatMap(
+    ([key, item]) => {
+      const name = /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+      return isYamlBlock(item)
+        ? [`${pad}${name}:`, ...stringifyYaml(item, indent + 2)]
+        : [`${pad}${name}: ${formatYamlScalar(item)}`];
+    }
+  );
+}
+
+function parseYamlScalar(text: string): unknown {
+  if (text.startsWith('"')) {
+    return JSON.parse(text);
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) {
+      throw new Error(`unterminated string ${text}`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  const plain = text.replace(/\s+#.*$/, "");
+  if (/^[[{]/.test(plain)) {
+    return JSON.parse(plain);
+  }
+  if (/^-?\d+(\.\d+)?$/.test(plain)) {
+    return Number(plain);
+  }
+  const keywords: Record<string, unknown> = {
+    true: true,
+    false: false,
+    null: null,
+    "~": null
+  };
+  return plain in keywords ? keywords[plain] : plain;
+}
+
+// Reads the block mappings, sequences and scalars that stringifyYaml writes,
+// plus the hand edits people usually make: comments, plain or single-quoted
+// strings and "|" blocks for multi-line replies.
+function parseYaml(source: string): unknown {
+  const lines = source
+    .split(/\r?\n/)
+    .map((text, index) => ({
+      number: index + 1,
+      indent: text.length - text.trimStart().length,
+      text: text.trim()
+    }))
+    .filter((line) => line.text && !line.text.startsWith("#") && line.text !== "---");
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`line ${lines[position]?.number ?? "end"}: ${message}`);
+  };
+
+  const readBlockScalar = (header: string, parentIndent: number) => {
+    const body: { indent: number; text: string }[] = [];
+    const raw = source.split(/\r?\n/);
+    let lineNumber = lines[position - 1].number;
+    while (lineNumber < raw.length) {
+      const text = raw[lineNumber];
+      const indent = text.length - text.trimStart().length;
+      if (text.trim() && indent <= parentIndent) {
+        break;
+      }
+      body.push({ indent, text });
+      lineNumber += 1;
+    }
+    while (body.length && !body[body.length - 1].text.trim()) {
+      body.pop();
+    }
+    const blockIndent = Math.min(
+      ...body.filter((line) => line.text.trim()).map((line) => line.indent)
+    );
+    while (position < lines.length && lines[position].number <= lineNumber) {
+      position += 1;
+    }
+    const value = body.map((line) => line.text.slice(blockIndent)).join("\n");
+    return header === "|-" ? value : `${value}\n`;
+  };
+
+  const readValue = (rest: string, indent: number): unknown => {
+    if (rest === "|" || rest === "|-") {
+      return readBlockScalar(rest, indent);
+    }
+    if (rest) {
+      return parseYamlScalar(rest);
+    }
+    const next = lines[position];
+    if (!next || next.indent < indent) {
+      return null;
+    }
+    if (next.indent === indent) {
+      return next.text.startsWith("- ") || next.text === "-"
+        ? readSequence(indent)
+        : null;
+    }
+    return readBlock(next.indent);
+  };
+
+  const readSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (
+      position < lines.length &&
+      lines[position].indent === indent &&
+      (lines[position].text.startsWith("- ") || lines[position].text === "-")
+    ) {
+      const line = lines[position];
+      const rest = line.text.slice(1).trimStart();
+      if (/^("(?:[^"\\]|\\.)*"|[^"'\s#][^:]*):(\s|$)/.test(rest)) {
+        // "- key: value" opens a mapping indented to where the key starts.
+        const itemIndent = indent + line.text.length - rest.length;
+        lines[position] = { ...line, indent: itemIndent, text: rest };
+        items.push(readMapping(itemIndent));
+      } else {
+        position += 1;
+        items.push(readValue(rest, indent + 1));
+      }
+    }
+    return items;
+  };
+
+  const readMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    while (position < lines.length && lines[position].indent === indent) {
+      const line = lines[position];
+      const match = line.text.match(/^("(?:[^"\\]|\\.)*"|[^"'\s#][^:]*):(?:\s+(.*))?$/);
+      if (!match || line.text.startsWith("- ")) {
+        fail(`expected "key: value", found "${line.text}"`);
+      }
+      const [, rawKey, rest = ""] = match as RegExpMatchArray;
+      const key = rawKey.startsWith('"') ? JSON.parse(rawKey) : rawKey.trim();
+      position += 1;
+      mapping[key] = readValue(rest.trim(), indent);
+    }
+    return mapping;
+  };
+
+  const readBlock = (indent: number): unknown => {
+    const line = lines[position];
+    return line.text.startsWith("- ") || line.text === "-"
+      ? readSequence(indent)
+      : readMapping(indent);
+  };
+
+  if (!lines.length) {
+    return null;
+  }
+  const value = readBlock(lines[0].indent);
+  if (position < lines.length) {
+    fail(`unexpected indentation before "${lines[position].text}"`);
+  }
+  return value;
+}
+
+// Only the non-secret settings travel, so a config file or link can be
+// handed to anyone writing replies.
+export function createBuilderConfig(
+  form: FormState,
+  routes: KeywordRoute[],
+  identity?: WorkflowIdentity
+): BuilderConfig {
+  const secrets =
+    form.secretStorage === "inline"
+      ? SECRET_FIELDS.filter((field) => String(form[field]).trim())
+      : [];
+  return {
+    schema: CONFIG_SCHEMA,
+    version: CONFIG_VERSION,
+    form: Object.fromEntries(
+      Object.entries(form).filter(
+        ([field]) => !SECRET_FIELDS.includes(field as keyof FormState)
+      )
+    ),
+    routes,
+    ...(identity && { identity }),
+    ...(secrets.length > 0 && { secrets })
+  };
+}
+
+export function stringifyBuilderConfig(
+  config: BuilderConfig,
+  format: "json" | "yaml"
+) {
+  return format === "json"
+    ? JSON.stringify(config, null, 2)
+    : `# Messenger n8n builder config\n${stringifyYaml(config).join("\n")}\n`;
+}
+
+// Returns null when the source is not a builder config at all, so callers
+// can fall back to reading it as an exported workflow.
+export function importBuilderConfig(source: string): WorkflowImport | null {
+  const trimmed = source.trim();
+  let parsed: unknown;
+  if (trimmed.startsWith("{")) {
+    parsed = safeJsonParse(trimmed);
+  } else {
+    try {
+      parsed = parseYaml(trimmed);
+    } catch (error) {
+      return trimmed.includes(CONFIG_SCHEMA)
+        ? {
+            form: {},
+            keywordRoutes: null,
+            issues: [
+              `Could not read the YAML config (${error instanceof Error ? error.message : String(error)}).`
+            ]
+          }
+        : null;
+    }
+  }
+  let config = parsed as Record<string, unknown> | null | undefined;
+  if (!config || typeof config !== "object" || config.schema !== CONFIG_SCHEMA) {
+    return null;
+  }
+
+  const version = config.version === undefined ? 1 : config.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return {
+      form: {},
+      keywordRoutes: null,
+      issues: [
+        `This config has no valid schema version (found ${JSON.stringify(version)}); versions are whole numbers from 1 up.`
+      ]
+    };
+  }
+  if (version > CONFIG_VERSION) {
+    return {
+      form: {},
+      keywordRoutes: null,
+      issues: [
+        `This config uses schema version ${version}, but this builder only reads up to version ${CONFIG_VERSION}. Update the builder and try again.`
+      ]
+    };
+  }
+  for (let step = version; step < CONFIG_VERSION; step += 1) {
+    config = CONFIG_MIGRATIONS[step](config);
+  }
+
+  const issues: string[] = [];
+  const savedForm = isPlainObject(config.form) ? config.form : {};
+  const form = Object.fromEntries(
+    Object.entries(savedForm).flatMap(([field, value]) => {
+      if (
+        !(field in DEFAULT_FORM) ||
+        SECRET_FIELDS.includes(field as keyof FormState)
+      ) {
+        return [];
+      }
+      const conformed = conformToDefault(
+        value,
+        DEFAULT_FORM[field as keyof FormState],
+        `form.${field}`,
+        issues
+      );
+      return conformed === undefined ? [] : [[field, conformed]];
+    })
+  ) as Partial<FormState>;
+  if (form.channels?.length === 0) {
+    issues.push("Ignored form.channels: expected at least one channel.");
+    delete form.channels;
+  }
+  if (form.schedule) {
+    form.schedule = mergeSchedule(form.schedule);
+  }
+  if (form.aiFallback) {
+    form.aiFallback = { ...DEFAULT_AI_FALLBACK, ...form.aiFallback };
+  }
+  if (form.logging) {
+    form.logging = { ...DEFAULT_LOGGING, ...form.logging };
+  }
+  if (form.errorHandling) {
+    form.errorHandling = { ...DEFAULT_ERROR_HANDLING, ...form.errorHandling };
+  }
+  if (form.flows) {
+    form.flows = { ...DEFAULT_FLOWS, ...form.flows };
+  }
+  if (form.lookup) {
+    form.lookup = { ...DEFAULT_LOOKUP, ...form.lookup };
+  }
+  if (form.localization) {
+    form.localization = { ...DEFAULT_LOCALIZATION, ...form.localization };
+  }
+  const routes = Array.isArray(config.routes) ? config.routes : [];
+  const keywordRoutes = routes
+    .map(normalizeImportedRoute)
+    .filter((route): route is KeywordRoute => Boolean(route));
+  if (keywordRoutes.length !== routes.length) {
+    issues.push(
+      `${routes.length - keywordRoutes.length} keyword route(s) had an unexpected shape and were skipped.`
+    );
+  }
+  issues.push(
+    "Builder configs never carry secrets; the verify token, Page access token and app secret were left as they were."
+  );
+  const identity = config.identity as Partial<WorkflowIdentity> | undefined;
+  const secrets = Array.isArray(config.secrets)
+    ? SECRET_FIELDS.filter((field) =>
+        (config.secrets as unknown[]).includes(field)
+      )
+    : [];
+  return {
+    form,
+    keywordRoutes,
+    issues,
+    ...(typeof identity?.seed === "string" &&
+      typeof identity.createdAt === "string" && {
+        identity: { seed: identity.seed, createdAt: identity.createdAt }
+      }),
+    ...(secrets.length > 0 && { secrets })
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown) {
+  if (Array.isArray(value)) {
+    return "a list";
+  }
+  return isPlainObject(value) ? "an object" : `a ${typeof value}`;
+}
+
+// An empty value of the default's type, for keys missing from list items
+// such as flow steps, which have no single default to fall back to.
+function blankLike(fallback: unknown): unknown {
+  if (Array.isArray(fallback)) {
+    return [];
+  }
+  if (isPlainObject(fallback)) {
+    return Object.fromEntries(
+      Object.entries(fallback).map(([key, value]) => [key, blankLike(value)])
+    );
+  }
+  if (typeof fallback === "number") {
+    return 0;
+  }
+  return typeof fallback === "boolean" ? false : "";
+}
+
+// The settings generateWorkflowJson switches on; any other string would send
+// it down a branch that does not exist. List items share one path, "[]".
+const CONFIG_OPTIONS: Record<string, readonly string[]> = {
+  "form.n8nTarget": Object.keys(NODE_VERSIONS),
+  "form.secretStorage": ["inline", "credentials"] satisfies SecretStorage[],
+  "form.channels[]": CHANNELS.map(({ value }) => value),
+  "form.logging.sink": [
+    "off",
+    "postgres",
+    "googleSheets",
+    "http"
+  ] satisfies LogSink[],
+  "form.errorHandling.alert": [
+    "none",
+    "email",
+    "slack",
+    "errorWorkflow"
+  ] satisfies AlertTarget[],
+  "form.schedule.afterHoursMode": ["replace", "suffix"] satisfies
+    BusinessSchedule["afterHoursMode"][],
+  "form.localization.detection": ["profile", "text"] satisfies LocaleDetection[]
+};
+
+// Hand-edited configs can hold any JSON, so every form value must have the
+// type of its default, and options one of their values, before it reaches
+// generateWorkflowJson. Mismatches are dropped and reported, which leaves
+// the default in place. Keys the default lacks are kept only for records
+// like defaultReplies, whose values share one type.
+function conformToDefault(
+  value: unknown,
+  fallback: unknown,
+  path: string,
+  issues: string[]
+): unknown {
+  const mismatch = () => {
+    issues.push(`Ignored ${path}: expected ${describeType(fallback)}.`);
+    return undefined;
+  };
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value)) {
+      return mismatch();
+    }
+    const [itemFallback] = fallback;
+    return value.flatMap((item, index) => {
+      const conformed = conformToDefault(
+        item,
+        itemFallback,
+        `${path}[${index}]`,
+        issues
+      );
+      if (conformed === undefined) {
+        return [];
+      }
+      return [
+        isPlainObject(conformed)
+          ? { ...(blankLike(itemFallback) as object), ...conformed }
+          : conformed
+      ];
+    });
+  }
+  if (isPlainObject(fallback)) {
+    if (!isPlainObject(value)) {
+      return mismatch();
+    }
+    const defaults = Object.values(fallback);
+    const isRecord = defaults.every(
+      (entry) => describeType(entry) === describeType(defaults[0])
+    );
+    return Object.fromEntries(
+      Object.entries(value).flatMap(([key, entry]) => {
+        if (!(key in fallback) && !(isRecord && defaults.length)) {
+          return [];
+        }
+        const conformed = conformToDefault(
+          entry,
+          key in fallback ? fallback[key] : defaults[0],
+          `${path}.${key}`,
+          issues
+        );
+        return conformed === undefined ? [] : [[key, conformed]];
+      })
+    );
+  }
+  if (
+    typeof value !== typeof fallback ||
+    (typeof value === "number" && !Number.isFinite(value))
+  ) {
+    return mismatch();
+  }
+  const options = CONFIG_OPTIONS[path.replace(/\[\d+\]/g, "[]")];
+  if (options && !options.includes(value as string)) {
+    issues.push(
+      `Ignored ${path}: expected one of ${options.map((option) => JSON.stringify(option)).join(", ")}.`
+    );
+    return undefined;
+  }
+  return value;
+}
+
+export function mergeSchedule(schedule: Partial<BusinessSchedule> | undefined) {
+  return {
+    ...DEFAULT_SCHEDULE,
+    ...schedule,
+    days: Object.fromEntries(
+      WEEKDAYS.map(({ value }) => [
+        value,
+        { ...DEFAULT_SCHEDULE.days[value], ...schedule?.days?.[value] }
+      ])
+    ) as BusinessSchedule["days"]
+  };
+}